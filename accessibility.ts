@@ -0,0 +1,234 @@
+import { Page } from "@browserbasehq/stagehand";
+import axe from "axe-core";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { AthenaTestError } from "./errors.js";
+import { visualPath, VisualSettings } from "./visual.js";
+
+/**
+ * Accessibility audits: axe-core is injected into the page and run on the
+ * whole page or a region of it, and the violations are reported by impact
+ * with the selectors of the offending elements.
+ *
+ * Athena has known violations, so a check can gate on new ones only: with
+ * a `baseline` name, the violations are compared by rule and element
+ * against the approved ones, kept next to the screenshot baselines:
+ *
+ * ```
+ * baselines/<scenario>/<name>.a11y.json
+ * ```
+ *
+ * A failed check, or one without a baseline yet, writes what it found to
+ * `runs/<runId>/visual/<scenario>/<name>.a11y.actual.json`, which
+ * `athena-test approve-baselines` accepts like screenshots. Without a
+ * baseline name every violation counts as new.
+ */
+
+export const IMPACTS = ["minor", "moderate", "serious", "critical"] as const;
+
+export type Impact = (typeof IMPACTS)[number];
+
+export const AccessibilityCheckSchema = z.object({
+  selector: z.string().optional() /* Audit only this region; the whole page by default */,
+  exclude: z.array(z.string()).default([]) /* Selectors of regions to leave out */,
+  tags: z
+    .array(z.string())
+    .default(["wcag2a", "wcag2aa", "wcag21a", "wcag21aa"]) /* axe-core rule tags to run */,
+  disableRules: z.array(z.string()).default([]) /* axe-core rule ids to skip */,
+  failOn: z
+    .enum(IMPACTS)
+    .default("serious") /* Least severe impact of a new violation that fails the check */,
+});
+
+export type AccessibilityCheck = z.infer<typeof AccessibilityCheckSchema>;
+
+export interface AccessibilityNode {
+  target: string; // CSS selector of the element
+  html: string; // Start of its markup
+  new?: boolean; // Not in the baseline
+}
+
+export interface AccessibilityViolation {
+  rule: string; // axe-core rule id, e.g. "color-contrast"
+  impact: Impact;
+  help: string;
+  helpUrl: string;
+  nodes: AccessibilityNode[];
+}
+
+export interface AccessibilityAudit {
+  name: string;
+  status: "passed" | "failed" | "updated";
+  scope: string; // The audited selector, or "page"
+  counts: Record<Impact, number>; // Violating elements per impact
+  newViolations: number; // Elements with a violation that is not in the baseline
+  violations: AccessibilityViolation[]; // Most severe first
+  baseline?: string;
+  actual?: string; // What was found, to approve as the new baseline
+  reason?: string;
+}
+
+export class AccessibilityError extends AthenaTestError {
+  constructor(
+    message: string,
+    readonly audit: AccessibilityAudit
+  ) {
+    super(message);
+  }
+}
+
+type AxeWindow = { axe?: typeof axe };
+
+/**
+ * Inject axe-core unless the page already has it, and run it
+ */
+async function runAxe(page: Page, check: AccessibilityCheck): Promise<AccessibilityViolation[]> {
+  if (!(await page.evaluate(() => Boolean((window as unknown as AxeWindow).axe)))) {
+    await page.evaluate(axe.source);
+  }
+  return page.evaluate(
+    async ({ selector, exclude, tags, disableRules }) => {
+      const engine = (window as unknown as AxeWindow).axe!;
+      const context: axe.ContextObject = {
+        ...(selector ? { include: [[selector]] } : {}),
+        exclude: exclude.map((excluded) => [excluded]),
+      };
+      const results = await engine.run(context, {
+        runOnly: { type: "tag", values: tags },
+        rules: Object.fromEntries(disableRules.map((rule) => [rule, { enabled: false }])),
+        resultTypes: ["violations"],
+      });
+      return results.violations.map((violation) => ({
+        rule: violation.id,
+        impact: violation.impact ?? "minor",
+        help: violation.help,
+        helpUrl: violation.helpUrl,
+        nodes: violation.nodes.map((node) => ({
+          target: node.target.flat().join(" "),
+          html: node.html.slice(0, 200),
+        })),
+      }));
+    },
+    {
+      selector: check.selector,
+      exclude: check.exclude,
+      tags: check.tags,
+      disableRules: check.disableRules,
+    }
+  );
+}
+
+const fingerprint = (rule: string, target: string) => `${rule} ${target}`;
+
+function loadBaseline(file: string): Set<string> {
+  const { violations } = JSON.parse(fs.readFileSync(file, "utf8")) as {
+    violations: AccessibilityViolation[];
+  };
+  return new Set(
+    violations.flatMap((violation) =>
+      violation.nodes.map((node) => fingerprint(violation.rule, node.target))
+    )
+  );
+}
+
+function writeViolations(file: string, violations: AccessibilityViolation[]) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const stored = violations.map(({ nodes, ...violation }) => ({
+    ...violation,
+    nodes: nodes.map(({ target, html }) => ({ target, html })),
+  }));
+  fs.writeFileSync(file, JSON.stringify({ violations: stored }, null, 2));
+}
+
+/**
+ * Audit the page and compare the violations against their baseline
+ * @param scenario - Scenario name, groups the baselines
+ * @param name - Names the baseline within the scenario; without one every
+ *   violation is new
+ */
+export async function checkAccessibility(
+  page: Page,
+  {
+    scenario,
+    name,
+    check,
+    settings,
+  }: { scenario: string; name?: string; check: AccessibilityCheck; settings: VisualSettings }
+): Promise<AccessibilityAudit> {
+  const violations = (await runAxe(page, check)).sort(
+    (a, b) => IMPACTS.indexOf(b.impact) - IMPACTS.indexOf(a.impact)
+  );
+  const counts = Object.fromEntries(
+    IMPACTS.map((impact) => [
+      impact,
+      violations
+        .filter((violation) => violation.impact === impact)
+        .reduce((sum, violation) => sum + violation.nodes.length, 0),
+    ])
+  ) as Record<Impact, number>;
+  const audit: AccessibilityAudit = {
+    name: name ?? "accessibility",
+    status: "passed",
+    scope: check.selector ?? "page",
+    counts,
+    newViolations: 0,
+    violations,
+  };
+
+  const relativePath = name ? visualPath(scenario, name).replace(/\.png$/, ".a11y.json") : undefined;
+  if (relativePath) {
+    audit.baseline = path.join(settings.baselinesDir, relativePath);
+    if (settings.update) {
+      writeViolations(audit.baseline, violations);
+      console.log(`Baseline updated: ${audit.baseline}`);
+      return { ...audit, status: "updated" };
+    }
+  }
+
+  const known =
+    audit.baseline && fs.existsSync(audit.baseline) ? loadBaseline(audit.baseline) : new Set();
+  for (const violation of violations) {
+    for (const node of violation.nodes) {
+      node.new = !known.has(fingerprint(violation.rule, node.target));
+      audit.newViolations += node.new ? 1 : 0;
+    }
+  }
+  const blocking = violations.filter(
+    (violation) =>
+      IMPACTS.indexOf(violation.impact) >= IMPACTS.indexOf(check.failOn) &&
+      violation.nodes.some((node) => node.new)
+  );
+  if (blocking.length) {
+    audit.status = "failed";
+    audit.reason = `${blocking.length} rules have new ${check.failOn} or worse violations: ${blocking
+      .map((violation) => violation.rule)
+      .join(", ")}`;
+  }
+
+  if (relativePath && (audit.status === "failed" || !fs.existsSync(audit.baseline!))) {
+    audit.actual = path.join(settings.outputDir, relativePath.replace(/\.json$/, ".actual.json"));
+    writeViolations(audit.actual, violations);
+  }
+  return audit;
+}
+
+/**
+ * The violations by impact, one line per rule with its elements
+ */
+export function formatAccessibilityAudit(audit: AccessibilityAudit): string {
+  const counts = IMPACTS.filter((impact) => audit.counts[impact])
+    .reverse()
+    .map((impact) => `${audit.counts[impact]} ${impact}`);
+  return [
+    `Accessibility of ${audit.scope}: ${counts.length ? counts.join(", ") : "no violations"}${
+      audit.newViolations ? ` (${audit.newViolations} new)` : ""
+    }`,
+    ...audit.violations.map(
+      (violation) =>
+        `  ${violation.impact} ${violation.rule}: ${violation.help}: ${violation.nodes
+          .map((node) => `${node.target}${node.new ? " [new]" : ""}`)
+          .join(", ")}`
+    ),
+  ].join("\n");
+}
@@ -0,0 +1,201 @@
+import { ChatAnthropic } from "@langchain/anthropic";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { UsageError } from "./errors.js";
+import type { Profile } from "./profiles.js";
+import { getSecret, writeRedactedFile } from "./secrets.js";
+
+/**
+ * Screenshot analysis: send the timed screenshot series of a prompt run plus
+ * the prompt itself to a vision model and get back a structured verdict.
+ *
+ * The model is reached through a `VisionClient`, so the pipeline can run
+ * against `FakeVisionClient` when there is no network or API key.
+ */
+
+export const VerdictSchema = z.object({
+  responded: z.boolean().describe("Did the agent start responding to the prompt"),
+  finished: z.boolean().describe("Did the agent finish its response"),
+  errored: z.boolean().describe("Did the agent or the app show an error"),
+  qualityScore: z
+    .number()
+    .min(0)
+    .max(10)
+    .describe("0 (useless) to 10 (excellent) rating of the final response"),
+  rationale: z.string().describe("Short explanation of the verdict"),
+});
+
+export type Verdict = z.infer<typeof VerdictSchema>;
+
+export interface VisionImage {
+  label: string; // Shown to the model right before the image
+  mediaType: "image/png" | "image/jpeg";
+  base64: string;
+}
+
+export interface VisionRequest {
+  system: string;
+  prompt: string;
+  images: VisionImage[];
+}
+
+/**
+ * Anything that can answer a text + images request with text
+ */
+export interface VisionClient {
+  complete(request: VisionRequest): Promise<string>;
+}
+
+export class AnthropicVisionClient implements VisionClient {
+  private model: ChatAnthropic;
+
+  /**
+   * @param model - A Claude model, usually the profile's `modelName`
+   */
+  constructor({
+    model,
+    apiKey = getSecret("ANTHROPIC_API_KEY"),
+  }: { model: string; apiKey?: string }) {
+    this.model = new ChatAnthropic({ model, apiKey, maxTokens: 1024, temperature: 0 });
+  }
+
+  async complete({ system, prompt, images }: VisionRequest): Promise<string> {
+    const content = [
+      ...images.flatMap((image) => [
+        { type: "text" as const, text: image.label },
+        {
+          type: "image_url" as const,
+          image_url: { url: `data:${image.mediaType};base64,${image.base64}` },
+        },
+      ]),
+      { type: "text" as const, text: prompt },
+    ];
+    const response = await this.model.invoke([
+      new SystemMessage(system),
+      new HumanMessage({ content }),
+    ]);
+    return typeof response.content === "string"
+      ? response.content
+      : response.content
+          .map((part) => ("text" in part ? part.text : ""))
+          .join("");
+  }
+}
+
+/**
+ * Offline stand-in for a vision model. Returns the given verdict (or the
+ * result of calling it with the request) and remembers every request.
+ */
+export class FakeVisionClient implements VisionClient {
+  readonly requests: VisionRequest[] = [];
+
+  constructor(
+    private verdict: Verdict | ((request: VisionRequest) => Verdict) = {
+      responded: true,
+      finished: true,
+      errored: false,
+      qualityScore: 7,
+      rationale: "Fake verdict",
+    }
+  ) {}
+
+  async complete(request: VisionRequest): Promise<string> {
+    this.requests.push(request);
+    const verdict =
+      typeof this.verdict === "function" ? this.verdict(request) : this.verdict;
+    return JSON.stringify(verdict);
+  }
+}
+
+/**
+ * Create a vision client by name, e.g. from a CLI flag. The Anthropic client
+ * uses the profile's model, which must then be a Claude model.
+ */
+export function createVisionClient(name: "anthropic" | "fake", profile: Profile): VisionClient {
+  if (name === "fake") {
+    return new FakeVisionClient();
+  }
+  if (!profile.modelName.startsWith("claude")) {
+    throw new UsageError(
+      `The anthropic vision client needs a Claude model, but profile "${profile.name}" uses ${profile.modelName}`
+    );
+  }
+  return new AnthropicVisionClient({ model: profile.modelName });
+}
+
+const SYSTEM_PROMPT = `You are a QA reviewer for Athena, an AI research agent with a chat interface.
+You will be shown screenshots of the chat taken at increasing times after a prompt was sent, followed by the prompt.
+Judge the agent's behaviour from the screenshots only and answer with a single JSON object with these keys:
+${Object.entries(VerdictSchema.shape)
+  .map(([key, schema]) => `- "${key}": ${schema.description}`)
+  .join("\n")}
+Do not wrap the JSON in markdown or add any other text.`;
+
+/**
+ * Pull the first JSON object out of a model response
+ */
+function parseJsonObject(text: string): unknown {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error(`Model response contains no JSON object: ${text}`);
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+/**
+ * Ask a vision model whether the agent handled a prompt, based on the
+ * screenshots taken while it was running
+ * @param screenshotPaths - Screenshots in the order they were taken
+ * @returns The validated verdict
+ */
+export async function analyzeScreenshots({
+  client,
+  prompt,
+  screenshotPaths,
+}: {
+  client: VisionClient;
+  prompt: string;
+  screenshotPaths: string[];
+}): Promise<Verdict> {
+  if (screenshotPaths.length === 0) {
+    throw new Error("No screenshots to analyze");
+  }
+  const images: VisionImage[] = screenshotPaths.map((screenshotPath, index) => ({
+    label: `Screenshot ${index + 1}/${screenshotPaths.length} (${path.basename(screenshotPath)})`,
+    mediaType: /\.jpe?g$/i.test(screenshotPath) ? "image/jpeg" : "image/png",
+    base64: fs.readFileSync(screenshotPath).toString("base64"),
+  }));
+
+  const text = await client.complete({
+    system: SYSTEM_PROMPT,
+    prompt: `The prompt sent to the agent was:\n\n${prompt}`,
+    images,
+  });
+
+  const result = VerdictSchema.safeParse(parseJsonObject(text));
+  if (!result.success) {
+    throw new Error(`Model returned an invalid verdict: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Analyze the `screenshot_paths.json` and `prompt.txt` written by
+ * athena_any_prompt.ts and save the verdict next to them as `verdict.json`
+ */
+export async function analyzeRun(
+  client: VisionClient,
+  outputDir = path.join(process.cwd(), "analysis")
+): Promise<Verdict> {
+  const screenshotPaths: string[] = JSON.parse(
+    fs.readFileSync(path.join(outputDir, "screenshot_paths.json"), "utf8")
+  );
+  const prompt = fs.readFileSync(path.join(outputDir, "prompt.txt"), "utf8");
+
+  const verdict = await analyzeScreenshots({ client, prompt, screenshotPaths });
+  writeRedactedFile(path.join(outputDir, "verdict.json"), JSON.stringify(verdict, null, 2));
+  return verdict;
+}
@@ -0,0 +1,124 @@
+import { Page } from "@browserbasehq/stagehand";
+import { z } from "zod";
+import { AthenaTestError } from "./errors.js";
+import { extractWithRetry } from "./retry.js";
+
+/**
+ * Read the agent's answer out of the chat with `page.extract()` and check it
+ * against expectations, so a run verifies what the agent said and not just
+ * that it said something.
+ *
+ * ```yaml
+ * - type: extractAnswer
+ *   mustMention: [dog, breed]
+ *   mustNotMention: [error, "I can't"]
+ *   minSources: 2
+ *   maxLatencyMs: 120000
+ * ```
+ */
+
+export const AgentAnswerSchema = z.object({
+  responseText: z.string().describe("The full text of the agent's last response"),
+  sources: z
+    .array(
+      z.object({
+        title: z.string().describe("Title or label of the cited source"),
+        url: z.string().optional().describe("Link of the source, if shown"),
+      })
+    )
+    .describe("Sources or citations shown with the last response"),
+  toolCalls: z
+    .array(z.string())
+    .describe("Tools or actions the agent shows it used for the last response, e.g. 'Web search'"),
+  errors: z.array(z.string()).describe("Error messages shown in the chat, if any"),
+});
+
+export type AgentAnswer = z.infer<typeof AgentAnswerSchema>;
+
+export const AnswerExpectationsSchema = z.object({
+  mustMention: z.array(z.string()).default([]) /* Case-insensitive */,
+  mustNotMention: z.array(z.string()).default([]) /* Case-insensitive */,
+  minSources: z.number().int().nonnegative().optional(),
+  maxLatencyMs: z.number().int().positive().optional() /* From sending the prompt to completion */,
+});
+
+export type AnswerExpectations = z.infer<typeof AnswerExpectationsSchema>;
+
+export interface AnswerCheck {
+  answer: AgentAnswer;
+  latencyMs?: number;
+  missing: string[]; // mustMention terms the response lacks
+  forbidden: string[]; // mustNotMention terms the response contains
+  violations: string[]; // Every unmet expectation, readable
+}
+
+/**
+ * The agent's answer does not meet its expectations
+ */
+export class AnswerMismatchError extends AthenaTestError {
+  constructor(readonly check: AnswerCheck) {
+    super(`Agent answer does not meet expectations: ${check.violations.join("; ")}`);
+  }
+}
+
+const EXTRACT_INSTRUCTION =
+  "Extract the agent's last response in the chat: its full text, the sources or citations it " +
+  "shows, the tools or actions it shows it used, and any error messages shown in the chat";
+
+/**
+ * Extract the agent's last answer from the chat
+ */
+export async function extractAnswer(page: Page): Promise<AgentAnswer> {
+  const answer = await extractWithRetry(page, {
+    instruction: EXTRACT_INSTRUCTION,
+    schema: AgentAnswerSchema,
+    useTextExtract: true,
+  });
+  return AgentAnswerSchema.parse(answer);
+}
+
+/**
+ * Whether any expectation is set, i.e. whether an answer has to be extracted
+ * to check them
+ */
+export function hasExpectations(expectations: Partial<AnswerExpectations>): boolean {
+  const { mustMention, mustNotMention, minSources, maxLatencyMs } =
+    AnswerExpectationsSchema.parse(expectations);
+  return (
+    mustMention.length > 0 ||
+    mustNotMention.length > 0 ||
+    minSources !== undefined ||
+    maxLatencyMs !== undefined
+  );
+}
+
+/**
+ * Check an answer against expectations
+ * @param latencyMs - Time from sending the prompt to completion, if known
+ */
+export function checkAnswer(
+  answer: AgentAnswer,
+  expectations: Partial<AnswerExpectations>,
+  latencyMs?: number
+): AnswerCheck {
+  const { mustMention, mustNotMention, minSources, maxLatencyMs } =
+    AnswerExpectationsSchema.parse(expectations);
+  const text = answer.responseText.toLowerCase();
+  const missing = mustMention.filter((term) => !text.includes(term.toLowerCase()));
+  const forbidden = mustNotMention.filter((term) => text.includes(term.toLowerCase()));
+
+  const violations = [
+    ...(missing.length ? [`does not mention ${missing.map((t) => `"${t}"`).join(", ")}`] : []),
+    ...(forbidden.length ? [`mentions ${forbidden.map((t) => `"${t}"`).join(", ")}`] : []),
+  ];
+  if (minSources !== undefined && answer.sources.length < minSources) {
+    violations.push(`cites ${answer.sources.length} sources, expected at least ${minSources}`);
+  }
+  if (maxLatencyMs !== undefined && latencyMs !== undefined && latencyMs > maxLatencyMs) {
+    violations.push(`took ${latencyMs}ms, expected at most ${maxLatencyMs}ms`);
+  }
+  if (answer.errors.length) {
+    violations.push(`chat shows errors: ${answer.errors.join("; ")}`);
+  }
+  return { answer, latencyMs, missing, forbidden, violations };
+}
@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+/**
+ * The shapes of the Athena API responses the harness relies on, checked by
+ * the network recorder in network.ts against every matching response a
+ * scenario sees. When the backend changes a payload, the scenario that
+ * exercises it fails with the offending field instead of with a UI step
+ * that timed out.
+ *
+ * Add a contract here for each endpoint a flow depends on. Keep schemas to
+ * the fields the app actually reads: unknown fields are allowed, so
+ * additions on the backend do not break runs.
+ */
+
+export interface ApiContract {
+  name: string;
+  method?: string; // Any method when omitted; "WS" for WebSocket messages
+  path: RegExp; // Matched against the URL path
+  format?: "json" | "ndjson"; // ndjson: one schema check per line of a stream
+  schema: z.ZodTypeAny;
+  maxMs?: number; // Overrides the scenario's slowMs for this endpoint
+}
+
+const LoginResponse = z.object({ ok: z.literal(true) });
+
+const ChatEvent = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("tool"), name: z.string() }),
+  z.object({ type: z.literal("text"), text: z.string() }),
+  z.object({
+    type: z.literal("sources"),
+    sources: z.array(z.object({ title: z.string(), url: z.string().url() })),
+  }),
+  z.object({ type: z.literal("error"), message: z.string() }),
+]);
+
+export const API_CONTRACTS: ApiContract[] = [
+  { name: "login", method: "POST", path: /^\/api\/login$/, schema: LoginResponse },
+  {
+    name: "chat",
+    method: "POST",
+    path: /^\/api\/chat$/,
+    format: "ndjson",
+    schema: ChatEvent,
+    maxMs: 120_000, // Streams until the agent finishes
+  },
+];
@@ -0,0 +1,235 @@
+import { Page } from "@browserbasehq/stagehand";
+import { InfraError, LoginError } from "./errors.js";
+import { findElement } from "./locators.js";
+import { withoutTracing } from "./recording.js";
+import { actWithRetry, RETRY_POLICIES, withRetry } from "./retry.js";
+import { getSecret } from "./secrets.js";
+import { deleteSession, isLoggedIn, restoreSession, saveSession } from "./session.js";
+
+/**
+ * Page objects for the Athena web app.
+ *
+ * Every function owns the waits, retries and success checks for its part of
+ * the UI, so callers only describe *what* to do. Retries follow the shared
+ * policies in retry.ts. Each one throws if the page
+ * does not end up in the expected state. Elements they wait on are found
+ * through the self-healing locators in locators.ts.
+ */
+
+export const ATHENA_URL = "https://app.athenaintel.com/";
+
+export interface AthenaCredentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Navigate to Athena and log in
+ * @param credentials - Defaults to ATHENA_USERNAME / ATHENA_PASSWORD
+ * @param baseUrl - The Athena deployment to log in to
+ * @param navigationTimeoutMs - Timeout of each navigation attempt
+ * @param sessionFile - Reuse the session saved here if it is still logged
+ *   in, and save the session here after logging in (see session.ts)
+ *
+ * A Playwright trace of the run is paused meanwhile, see recording.ts.
+ */
+export async function login(page: Page, options: Parameters<typeof logInUntraced>[1] = {}) {
+  return withoutTracing(page.context(), () => logInUntraced(page, options));
+}
+
+async function logInUntraced(
+  page: Page,
+  {
+    credentials,
+    baseUrl = ATHENA_URL,
+    navigationTimeoutMs = 60000,
+    sessionFile,
+  }: {
+    credentials?: AthenaCredentials;
+    baseUrl?: string;
+    navigationTimeoutMs?: number;
+    sessionFile?: string;
+  } = {}
+) {
+  const { username, password } = credentials ?? {
+    username: getSecret("ATHENA_USERNAME")!,
+    password: getSecret("ATHENA_PASSWORD")!,
+  };
+  const restored = sessionFile ? await restoreSession(page, sessionFile) : false;
+
+  console.log("Navigating to Athena...");
+  try {
+    await withRetry(
+      "Navigation to Athena",
+      () => page.goto(baseUrl, { timeout: navigationTimeoutMs }),
+      RETRY_POLICIES.navigation
+    );
+  } catch (error) {
+    throw new InfraError(`Could not reach ${baseUrl}`, { cause: error });
+  }
+  console.log("Successfully navigated to Athena");
+
+  if (restored) {
+    if (await isLoggedIn(page, navigationTimeoutMs)) {
+      console.log(`Reused the saved session of ${username}`);
+      await page.waitForLoadState("networkidle");
+      return;
+    }
+    // Expired: the app sent us back to the login form
+    console.log("The saved session has expired, logging in again...");
+    deleteSession(sessionFile!);
+  }
+
+  // Wait for the email input field to be visible
+  try {
+    await findElement(page, "emailInput");
+  } catch (error) {
+    throw new InfraError("Login form did not load", { cause: error });
+  }
+
+  await actWithRetry(page, {
+    action:
+      "fill in the form with %username% and %password% and click the log in button",
+    variables: { username, password },
+  });
+
+  // Wait for successful login; the landing page sometimes only renders after
+  // a reload
+  try {
+    await withRetry(
+      "Waiting for the landing page",
+      (attempt) => findElement(page, "landingHeader", { timeoutMs: attempt === 1 ? 10000 : 30000 }),
+      {
+        ...RETRY_POLICIES.none,
+        attempts: 2,
+        retryable: () => true,
+        recover: async () => {
+          console.log("Reloading the page...");
+          await page.reload();
+        },
+      }
+    );
+  } catch (error) {
+    throw new LoginError(`Login as ${username} did not succeed`, { cause: error });
+  }
+
+  console.log("Successfully logged in to Athena");
+
+  // Wait for the page to fully load after login
+  await page.waitForLoadState("networkidle");
+
+  if (sessionFile) {
+    await saveSession(page, sessionFile);
+  }
+}
+
+/**
+ * Open Spaces from the main navigation and wait for its chat to be ready
+ */
+export async function openSpaces(page: Page) {
+  console.log("Clicking on Spaces...");
+  await actWithRetry(page, { action: "Click Spaces" });
+
+  // Wait for navigation and content to load
+  await page.waitForLoadState("networkidle");
+  await page.waitForTimeout(3000); // Additional wait to ensure content is loaded
+
+  await findElement(page, "chatInput", { timeoutMs: 30000 });
+}
+
+/**
+ * Start an empty chat by opening Spaces again, which always lands on a new
+ * conversation
+ */
+export async function startNewChat(page: Page) {
+  console.log("Starting a new chat...");
+  await openSpaces(page);
+  const input = await findElement(page, "chatInput");
+  if ((await input.textContent())?.trim()) {
+    throw new Error("Chat input is not empty after starting a new chat");
+  }
+}
+
+/**
+ * Switch the Spaces chat to another agent using the dropdown at the top
+ * @param name - The agent's label as shown in the dropdown, e.g. "Athena"
+ */
+export async function selectAgent(page: Page, name: string) {
+  console.log("Switching the agent...");
+  await actWithRetry(page, {
+    action:
+      "Find a dropdown on the top center of the page (with settings icon to the right) and click on the dropdown.",
+  });
+
+  console.log(`Clicking on ${name} agent...`);
+  await actWithRetry(page, {
+    action: `Find the ${name} agent (the one that just says ${name}) and click on it`,
+  });
+
+  // The name is also in the open menu, so only the closed dropdown showing
+  // it proves the click selected the agent
+  await page
+    .locator('[role="menu"], [role="listbox"]')
+    .first()
+    .waitFor({ state: "hidden", timeout: 10000 });
+  const dropdown = await findElement(page, "agentDropdown", { timeoutMs: 10000 });
+  const deadline = Date.now() + 10000;
+  let shown = "";
+  do {
+    shown = ((await dropdown.innerText().catch(() => "")) || "").trim();
+    if (shown.split(/\s*\n\s*/).includes(name)) {
+      return;
+    }
+    await page.waitForTimeout(500);
+  } while (Date.now() < deadline);
+  throw new Error(`Selecting the ${name} agent did not succeed; the dropdown shows "${shown}"`);
+}
+
+/**
+ * Type a prompt into the Spaces chat input and send it
+ */
+export async function sendPrompt(page: Page, text: string) {
+  console.log("Clicking in the chat input field...");
+  const input = await findElement(page, "chatInput", { timeoutMs: 10000 });
+  await input.click({ timeout: 10000 });
+
+  console.log("Typing in the prompt...");
+  await page.keyboard.type(text);
+  await page.keyboard.press("Enter");
+
+  // The editor is cleared once the message has been sent
+  await page.waitForFunction(
+    (element) => !element?.textContent?.trim(),
+    await input.elementHandle(),
+    { timeout: 30000 }
+  );
+
+  await page.waitForLoadState("networkidle");
+}
+
+/**
+ * Open an item from the Library by (part of) its title
+ */
+export async function openLibraryItem(page: Page, title: string) {
+  console.log("Clicking on Library...");
+  await actWithRetry(page, "Click the 'Library' link");
+
+  // Wait for navigation after clicking Library
+  await page.waitForLoadState("networkidle");
+  await page.waitForTimeout(3000);
+
+  // Items further down are only rendered once scrolled into view
+  await page.evaluate(() => {
+    window.scrollTo(0, document.body.scrollHeight);
+  });
+  await page.waitForTimeout(2000);
+
+  console.log(`Opening "${title}"...`);
+  await actWithRetry(page, `Click the link containing '${title}'`);
+
+  await page.waitForLoadState("networkidle");
+  await page
+    .getByText(title)
+    .first()
+    .waitFor({ state: "visible", timeout: 30000 });
+}
@@ -2,36 +2,79 @@ import { Page, BrowserContext, Stagehand } from "@browserbasehq/stagehand";
 import dotenv from "dotenv";
 import fs from "fs";
 import path from "path";
+import { analyzeRun, createVisionClient } from "./analysis.js";
+import {
+  AnswerCheck,
+  AnswerExpectations,
+  AnswerMismatchError,
+  checkAnswer,
+  extractAnswer,
+  hasExpectations,
+} from "./answer.js";
+import { login, openSpaces, selectAgent, sendPrompt } from "./athena.js";
+import { CompletionResult, waitForCompletion } from "./completion.js";
+import { AgentError } from "./errors.js";
+import { captureFailureBundle } from "./forensics.js";
+import { MetricsRecorder } from "./metrics.js";
+import { getProfile, Profile, profileLoginOptions } from "./profiles.js";
+import { writeRedactedFile } from "./secrets.js";
+import { screenshotWithRetry } from "./utils.js";
 
 dotenv.config();
 
+export interface PromptOptions {
+  prompt: string;
+  agent: string;
+  numScreenshots: number; // Screenshots to take in "interval" mode
+  intervalMs: number; // Time between screenshots in both modes
+  capture: "completion" | "interval"; // "completion" stops capturing once the agent is done
+  timeoutMs?: number; // Completion timeout, defaults to numScreenshots × intervalMs
+  analyze?: "anthropic" | "fake"; // Analyze the screenshots with this vision client once captured
+  expect?: Partial<AnswerExpectations>; // Checked against the extracted answer, see answer.ts
+  saveAnswer?: boolean; // Extract and save the answer even without expectations
+  outputDir?: string; // Gets the screenshots/ and analysis/ directories, default the working directory
+}
+
+export const DEFAULT_PROMPT_OPTIONS: PromptOptions = {
+  prompt: "research news on dogs",
+  agent: "Athena",
+  numScreenshots: 10,
+  intervalMs: 60000,
+  capture: "completion",
+};
+
 export async function main({
   page,
   context,
   stagehand,
+  profile = getProfile(),
+  options = {},
 }: {
   page: Page; // Playwright Page with act, extract, and observe methods
   context: BrowserContext; // Playwright BrowserContext
   stagehand: Stagehand; // Stagehand instance
+  profile?: Profile; // Athena deployment to run against
+  options?: Partial<PromptOptions>;
 }) {
   try {
-    // Parse command line arguments
-    const args: Record<string, string> = {};
-    process.argv.slice(2).forEach(arg => {
-      if (arg.startsWith('--')) {
-        const [key, value] = arg.substring(2).split('=');
-        args[key] = value;
-      }
-    });
-    
-    // Default to 10 screenshots if not specified
-    const numScreenshots = parseInt(args.num_screenshots || '10', 10);
-    // Default to 60 seconds (1 minute) between screenshots if not specified
-    const screenshotIntervalMs = parseInt(args.interval_ms || '60000', 10);
-    // Default prompt if not specified
-    const customPrompt = args.prompt || "research news on dogs";
-    
-    console.log(`Configuration: Taking ${numScreenshots} screenshots with ${screenshotIntervalMs}ms interval`);
+    const {
+      prompt: customPrompt,
+      agent,
+      numScreenshots,
+      intervalMs: screenshotIntervalMs,
+      capture: captureMode,
+      timeoutMs = numScreenshots * screenshotIntervalMs,
+      analyze: visionClient,
+      expect: expectations = {},
+      saveAnswer = false,
+      outputDir: baseDir = process.cwd(),
+    } = { ...DEFAULT_PROMPT_OPTIONS, ...options };
+    
+    console.log(
+      captureMode === 'completion'
+        ? `Configuration: Capturing until completion (timeout ${timeoutMs}ms), screenshot every ${screenshotIntervalMs}ms`
+        : `Configuration: Taking ${numScreenshots} screenshots with ${screenshotIntervalMs}ms interval`
+    );
     console.log(`Using prompt: "${customPrompt}"`);
     
     // Set a higher viewport resolution
@@ -41,143 +84,72 @@ export async function main({
     // });
     
     // Create screenshots directory if it doesn't exist
-    const screenshotsDir = path.join(process.cwd(), 'screenshots');
+    const screenshotsDir = path.join(baseDir, 'screenshots');
     if (!fs.existsSync(screenshotsDir)) {
-      fs.mkdirSync(screenshotsDir);
+      fs.mkdirSync(screenshotsDir, { recursive: true });
     }
     
-    // Create output directory for analysis (will be used by Windmill script)
-    const outputDir = path.join(process.cwd(), 'analysis');
+    // Create output directory for analysis
+    const outputDir = path.join(baseDir, 'analysis');
     if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir);
+      fs.mkdirSync(outputDir, { recursive: true });
     }
 
-    // Navigate to Athena with retry logic
-    console.log("Navigating to Athena...");
-    let retries = 3;
-    while (retries > 0) {
-      try {
-        await page.goto("https://app.athenaintel.com/", { timeout: 60000 });
-        console.log("Successfully navigated to Athena");
-        break; // Break out of the loop if successful
-      } catch (error) {
-        retries--;
-        if (retries === 0) {
-          console.error("Failed to navigate to Athena after multiple attempts");
-          throw error;
-        }
-        console.log(`Navigation failed, retrying... (${retries} attempts left)`);
-        await page.waitForTimeout(5000); // Wait 5 seconds before retrying
-      }
-    }
+    const metrics = new MetricsRecorder(page);
+    const loginStart = Date.now();
+    await login(page, profileLoginOptions(profile));
+    metrics.recordLogin(Date.now() - loginStart);
+    await metrics.recordPageLoad();
+    await openSpaces(page);
+    await selectAgent(page, agent);
+    const sentAt = Date.now();
+    await metrics.promptSent(customPrompt);
+    await sendPrompt(page, customPrompt);
 
-    // Wait for the email input field to be visible
-    await page.waitForSelector('input[autocomplete="email"]', { state: 'visible' });
+    const screenshotPaths: string[] = [];
 
-    // Fill in the form with username and password from environment variables
-    await page.act({
-      action: "fill in the form with %username% and %password% and click the log in button",
-      variables: {
-        username: process.env.ATHENA_USERNAME!,
-        password: process.env.ATHENA_PASSWORD!,
-      },
-    });
+    const takeScreenshot = async () => {
+      const index = screenshotPaths.length + 1;
+      const timestamp = new Date().toISOString().replace(/:/g, '-');
+      const screenshotPath = path.join(screenshotsDir, `screenshot-${index}-${timestamp}.png`);
 
-    // Wait for successful login and handle potential timeout
-    try {
-      await page.waitForSelector('h1.MuiBox-root', { state: 'visible', timeout: 10000 });
-    } catch (error) {
-      console.log("Element not found within 10 seconds. Reloading the page...");
-      await page.reload(); // Reload the page
-      await page.waitForSelector('h1.MuiBox-root', { state: 'visible' }); // Retry after reload
-    }
+      console.log(`Taking screenshot ${index}...`);
+      await screenshotWithRetry(page, screenshotPath);
+      console.log(`Screenshot ${index} taken: ${screenshotPath}`);
+      screenshotPaths.push(screenshotPath);
+    };
 
-    console.log("Successfully logged in to Athena");
-    
-    // Wait for the page to fully load after login
-    await page.waitForLoadState('networkidle');
-    
-    // Click on Spaces
-    console.log("Clicking on Spaces...");
-    await page.act({
-      action: "Click Spaces",
-    });
-    
-    // Wait for navigation and content to load
-    await page.waitForLoadState('networkidle');
-    await page.waitForTimeout(3000); // Additional wait to ensure content is loaded
-    
-    // Click the agent menu
-    console.log("Switching the agent...");
-    await page.act({
-      action: "Find a dropdown on the top center of the page (with settings icon to the right) and click on the dropdown.",
-    });
+    let completion: CompletionResult | undefined;
+    if (captureMode === 'completion') {
+      // Screenshot every interval until the agent finishes, errors or times out
+      console.log(`Waiting for the agent to finish (up to ${timeoutMs}ms), taking a screenshot every ${screenshotIntervalMs}ms...`);
+      completion = await waitForCompletion(page, {
+        timeoutMs,
+        captureEveryMs: screenshotIntervalMs,
+        capture: takeScreenshot,
+      });
+      writeRedactedFile(
+        path.join(outputDir, 'completion.json'),
+        JSON.stringify(completion, null, 2)
+      );
+      await metrics.promptCompleted(completion);
+    } else {
+      // Take screenshots at the specified interval
+      console.log(`Starting to take ${numScreenshots} screenshots with ${screenshotIntervalMs}ms interval...`);
+      for (let i = 0; i < numScreenshots; i++) {
+        await takeScreenshot();
 
-    // Click the agent menu
-    console.log("Clicking on Athena agent... ");
-    await page.act({
-      action: "Find the Athena agent (the one that just says Athena) and click on it",
-    });
-    
-    // Type in a custom prompt in the chat input
-    console.log("Clicking in the chat input field...");
-    await page.act({
-      action: `Find the chat input field at the bottom of the page (that says class="tiptap ProseMirror prose-sm max-h-[70vh] m-0 w-full text-custom px-2.5 pt-2 pb-0.5 focus:outline-none text-[16px]"), click on it `,
-    });
-    
-    // Type and click the send button
-    console.log("Typing in the prompt...");
-    await page.act({
-      action: `Type in the following: ${customPrompt}. Hit enter`,
-    });
-    
-    // Wait for navigation and content to load
-    await page.waitForLoadState('networkidle');
-    
-    // Take screenshots at the specified interval
-    console.log(`Starting to take ${numScreenshots} screenshots with ${screenshotIntervalMs}ms interval...`);
-    
-    const screenshotPaths: string[] = [];
-    
-    for (let i = 0; i < numScreenshots; i++) {
-      // Take a screenshot with retry logic
-      const timestamp = new Date().toISOString().replace(/:/g, '-');
-      const screenshotPath = path.join(screenshotsDir, `screenshot-${i+1}-${timestamp}.png`);
-      
-      console.log(`Taking screenshot ${i+1}/${numScreenshots}...`);
-      let screenshotRetries = 3;
-      while (screenshotRetries > 0) {
-        try {
-          await page.screenshot({
-            path: screenshotPath,
-            fullPage: true,
-            timeout: 60000 // Increase timeout to 60 seconds
-          });
-          console.log(`Screenshot ${i+1}/${numScreenshots} taken: ${screenshotPath}`);
-          break; // Break out of the loop if successful
-        } catch (error) {
-          screenshotRetries--;
-          if (screenshotRetries === 0) {
-            console.error(`Failed to take screenshot after multiple attempts`);
-            throw error;
-          }
-          console.log(`Screenshot failed, retrying... (${screenshotRetries} attempts left)`);
-          await page.waitForTimeout(5000); // Wait 5 seconds before retrying
+        // Wait before taking the next screenshot (unless it's the last one)
+        if (i < numScreenshots - 1) {
+          console.log(`Waiting ${screenshotIntervalMs}ms before taking next screenshot...`);
+          await page.waitForTimeout(screenshotIntervalMs);
         }
       }
-      
-      screenshotPaths.push(screenshotPath);
-      
-      // Wait before taking the next screenshot (unless it's the last one)
-      if (i < numScreenshots - 1) {
-        console.log(`Waiting ${screenshotIntervalMs}ms before taking next screenshot...`);
-        await page.waitForTimeout(screenshotIntervalMs);
-      }
     }
     
-    console.log("All screenshots taken. Saving screenshot paths to file for Windmill processing...");
+    console.log("All screenshots taken. Saving screenshot paths to file for analysis...");
     
-    // Save the screenshot paths to a file for the Windmill script to process
+    // Save the screenshot paths to a file for the analysis step
     fs.writeFileSync(
       path.join(outputDir, 'screenshot_paths.json'),
       JSON.stringify(screenshotPaths),
@@ -185,20 +157,49 @@ export async function main({
     );
     
     // Also save the prompt used for reference
-    fs.writeFileSync(
-      path.join(outputDir, 'prompt.txt'),
-      customPrompt,
-      'utf8'
-    );
+    writeRedactedFile(path.join(outputDir, 'prompt.txt'), customPrompt);
     
-    console.log("Screenshot paths and prompt saved. Automation complete.");
+    console.log("Screenshot paths and prompt saved.");
+
+    // Read the answer itself, not just the screenshots; that is another
+    // model call, so only when it is checked or asked for
+    let answerCheck: AnswerCheck | undefined;
+    if (saveAnswer || hasExpectations(expectations)) {
+      console.log("Extracting the agent's answer...");
+      answerCheck = checkAnswer(
+        await extractAnswer(page),
+        expectations,
+        completion ? Date.parse(completion.completedAt) - sentAt : undefined
+      );
+      writeRedactedFile(path.join(outputDir, 'answer.json'), JSON.stringify(answerCheck, null, 2));
+      console.log(`Answer saved to ${path.join(outputDir, 'answer.json')}`);
+    }
+    writeRedactedFile(path.join(outputDir, 'metrics.json'), JSON.stringify(metrics.finish(), null, 2));
+
+    if (visionClient) {
+      console.log(`Analyzing screenshots with the ${visionClient} vision client...`);
+      const verdict = await analyzeRun(createVisionClient(visionClient, profile), outputDir);
+      console.log("Verdict:", verdict);
+    }
+
+    if (completion && completion.outcome !== 'completed') {
+      throw new AgentError(
+        `Agent run ended with ${completion.outcome}: ${completion.errorText || completion.reason}`
+      );
+    }
+    if (answerCheck?.violations.length) {
+      throw new AnswerMismatchError(answerCheck);
+    }
+
+    console.log("Automation complete.");
     
   } catch (error) {
     console.error('Test failed:', error);
-    // Take a screenshot on failure
-    await page.screenshot({
-      path: 'error-screenshot.png',
-      fullPage: true
+    // Save a screenshot, the DOM, console and network errors for debugging
+    await captureFailureBundle(page, {
+      error,
+      label: 'any-prompt',
+      failuresDir: path.join(options.outputDir ?? process.cwd(), 'failures'),
     });
     throw error;
   }
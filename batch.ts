@@ -0,0 +1,359 @@
+import { Page } from "@browserbasehq/stagehand";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { AnswerExpectations, checkAnswer, extractAnswer, hasExpectations } from "./answer.js";
+import { login, selectAgent, sendPrompt, startNewChat } from "./athena.js";
+import { CompletionOutcome, waitForCompletion } from "./completion.js";
+import { FailureKind, failureKind, UsageError } from "./errors.js";
+import { captureFailureBundle } from "./forensics.js";
+import { withLogContext } from "./logger.js";
+import { MetricsRecorder } from "./metrics.js";
+import { Profile, profileLoginOptions } from "./profiles.js";
+import { writeRedactedFile } from "./secrets.js";
+import { screenshotWithRetry } from "./utils.js";
+
+/**
+ * Batch mode: run many prompts through one logged-in session, each in a
+ * fresh chat, and record a results matrix.
+ *
+ * Prompts come from a JSONL file (one object per line) or a CSV file with a
+ * header row. Columns / keys: `prompt` (required), `id`, `agent`,
+ * `expected_keywords` and `must_not_mention` (`;`-separated in CSV, arrays
+ * in JSONL), `min_sources`, `max_latency_ms`, `timeout_ms` (defaults to
+ * the profile's completion timeout) and `save_answer`.
+ *
+ * When a prompt has expectations or `save_answer` is true, the agent's
+ * answer is extracted from the chat (see answer.ts), checked against the
+ * expectations and saved as `answers/<id>.json`, with the id slugified; ids
+ * must be unique within a file.
+ * Latency and request metrics of the whole batch go to `metrics.json`.
+ */
+
+export const BatchPromptSchema = z.object({
+  id: z.string().optional(),
+  prompt: z.string().min(1),
+  agent: z.string().default("Athena"),
+  expected_keywords: z.array(z.string()).default([]) /* Terms the answer must mention */,
+  must_not_mention: z.array(z.string()).default([]),
+  min_sources: z.number().int().nonnegative().optional(),
+  max_latency_ms: z.number().int().positive().optional(),
+  timeout_ms: z.number().int().positive().optional() /* Defaults to the profile's completion timeout */,
+  save_answer: z.boolean().default(false) /* Extract the answer even without expectations */,
+});
+
+export type BatchPrompt = z.infer<typeof BatchPromptSchema> & { id: string };
+
+export interface BatchResult {
+  id: string;
+  prompt: string;
+  agent: string;
+  outcome: CompletionOutcome | "failed";
+  durationMs: number;
+  timeToFirstTokenMs?: number; // See metrics.ts
+  apiRequests?: number; // Sent while the agent worked on the prompt
+  completedAt?: string;
+  missingKeywords: string[];
+  violations: string[]; // Unmet answer expectations, including missing keywords
+  answerPath?: string; // The extracted answer and its check
+  screenshotPath?: string;
+  error?: string;
+  failureKind?: FailureKind;
+  failureBundle?: string; // Directory with the forensics of the failure
+}
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells with commas,
+ * escaped quotes ("") and newlines
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+function csvRecords(text: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+  return rows.map((cells) => {
+    const record: Record<string, unknown> = {};
+    header.forEach((column, index) => {
+      const value = cells[index]?.trim();
+      if (!value) {
+        return;
+      }
+      const key = column.trim();
+      if (key === "expected_keywords" || key === "must_not_mention") {
+        record[key] = value.split(";").map((k) => k.trim()).filter(Boolean);
+      } else if (key === "timeout_ms" || key === "min_sources" || key === "max_latency_ms") {
+        record[key] = Number(value);
+      } else if (key === "save_answer") {
+        record[key] = value === "true";
+      } else {
+        record[key] = value;
+      }
+    });
+    return record;
+  });
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * File name of a prompt's answer and screenshot, without extension
+ */
+function promptFileName(item: BatchPrompt): string {
+  return slugify(item.id) || "prompt";
+}
+
+/**
+ * Load and validate a `.jsonl` or `.csv` prompts file
+ */
+export function loadBatchPrompts(filePath: string): BatchPrompt[] {
+  if (!fs.existsSync(filePath)) {
+    throw new UsageError(`${filePath} does not exist`);
+  }
+  const text = fs.readFileSync(filePath, "utf8");
+  const records = filePath.endsWith(".csv")
+    ? csvRecords(text)
+    : text.split("\n").flatMap((line, index) => {
+        if (!line.trim()) {
+          return [];
+        }
+        try {
+          return [JSON.parse(line) as unknown];
+        } catch (error) {
+          throw new UsageError(`Line ${index + 1} of ${filePath} is not valid JSON`, {
+            cause: error,
+          });
+        }
+      });
+
+  const prompts = records.map((record, index) => {
+    const result = BatchPromptSchema.safeParse(record);
+    if (!result.success) {
+      throw new UsageError(
+        `Invalid prompt #${index + 1} in ${filePath}: ${result.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join(", ")}`
+      );
+    }
+    return { ...result.data, id: result.data.id || String(index + 1) };
+  });
+  const ids = new Map<string, string>();
+  for (const item of prompts) {
+    const fileName = promptFileName(item);
+    const other = ids.get(fileName);
+    if (other !== undefined) {
+      throw new UsageError(
+        other === item.id
+          ? `Duplicate prompt id "${item.id}" in ${filePath}`
+          : `Prompt ids "${other}" and "${item.id}" in ${filePath} both map to "${fileName}"`
+      );
+    }
+    ids.set(fileName, item.id);
+  }
+  return prompts;
+}
+
+function csvCell(value: unknown): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write the results matrix as `results.json` and `results.csv`
+ */
+export function writeBatchResults(results: BatchResult[], outputDir: string) {
+  fs.mkdirSync(outputDir, { recursive: true });
+  writeRedactedFile(path.join(outputDir, "results.json"), JSON.stringify(results, null, 2));
+  const columns: (keyof BatchResult)[] = [
+    "id",
+    "agent",
+    "outcome",
+    "durationMs",
+    "timeToFirstTokenMs",
+    "apiRequests",
+    "completedAt",
+    "missingKeywords",
+    "violations",
+    "answerPath",
+    "screenshotPath",
+    "error",
+    "failureBundle",
+    "prompt",
+  ];
+  const lines = [
+    columns.join(","),
+    ...results.map((result) =>
+      columns
+        .map((column) => {
+          const value = result[column];
+          return csvCell(Array.isArray(value) ? value.join(";") : value);
+        })
+        .join(",")
+    ),
+  ];
+  writeRedactedFile(path.join(outputDir, "results.csv"), lines.join("\n") + "\n");
+}
+
+/**
+ * Log in once, then run every prompt in a new chat. A failing prompt is
+ * recorded and the next one starts from a fresh login if Spaces cannot be
+ * reopened.
+ */
+export async function runBatch({
+  page,
+  profile,
+  prompts,
+  outputDir,
+}: {
+  page: Page; // Playwright Page with act, extract, and observe methods
+  profile: Profile; // Athena deployment to run against
+  prompts: BatchPrompt[];
+  outputDir: string;
+}): Promise<BatchResult[]> {
+  const results: BatchResult[] = [];
+  const metrics = new MetricsRecorder(page);
+  const loginStart = Date.now();
+  await login(page, profileLoginOptions(profile));
+  metrics.recordLogin(Date.now() - loginStart);
+  await metrics.recordPageLoad();
+
+  for (const [index, item] of prompts.entries()) {
+    console.log(`Prompt ${index + 1}/${prompts.length} (${item.id}): "${item.prompt}"`);
+    const start = Date.now();
+    const result: BatchResult = {
+      id: item.id,
+      prompt: item.prompt,
+      agent: item.agent,
+      outcome: "failed",
+      durationMs: 0,
+      missingKeywords: [],
+      violations: [],
+    };
+    results.push(result);
+
+    await withLogContext({ step: `prompt ${item.id}` }, async () => {
+      try {
+        try {
+          await startNewChat(page);
+        } catch (error) {
+          console.log("Could not open a new chat, logging in again...");
+          await login(page, profileLoginOptions(profile));
+          await startNewChat(page);
+        }
+        await selectAgent(page, item.agent);
+        const sentAt = Date.now();
+        await metrics.promptSent(item.prompt, item.id);
+        await sendPrompt(page, item.prompt);
+
+        const completion = await waitForCompletion(page, {
+          timeoutMs: item.timeout_ms ?? profile.timeouts.completionMs,
+        });
+        await metrics.promptCompleted(completion);
+        const promptMetrics = metrics.metrics.prompts.at(-1);
+        result.timeToFirstTokenMs = promptMetrics?.timeToFirstTokenMs;
+        result.apiRequests = promptMetrics?.network.api;
+        result.outcome = completion.outcome;
+        result.completedAt = completion.completedAt;
+        result.durationMs = Date.now() - sentAt;
+        if (completion.outcome !== "completed") {
+          result.failureKind = "agent";
+          result.error = completion.errorText || completion.reason;
+          result.failureBundle = await captureFailureBundle(page, {
+            error: result.error,
+            label: `prompt-${item.id}`,
+            failuresDir: path.join(outputDir, "failures"),
+          });
+        }
+
+        const expectations: AnswerExpectations = {
+          mustMention: item.expected_keywords,
+          mustNotMention: item.must_not_mention,
+          minSources: item.min_sources,
+          maxLatencyMs: item.max_latency_ms,
+        };
+        // Extracting the answer is another model call
+        if (item.save_answer || hasExpectations(expectations)) {
+          const check = checkAnswer(
+            await extractAnswer(page),
+            expectations,
+            Date.parse(completion.completedAt) - sentAt
+          );
+          result.missingKeywords = check.missing;
+          result.violations = check.violations;
+          result.answerPath = path.join(outputDir, "answers", `${promptFileName(item)}.json`);
+          fs.mkdirSync(path.dirname(result.answerPath), { recursive: true });
+          writeRedactedFile(result.answerPath, JSON.stringify(check, null, 2));
+        }
+
+        const screenshotPath = path.join(outputDir, "screenshots", `${promptFileName(item)}.png`);
+        fs.mkdirSync(path.dirname(screenshotPath), { recursive: true });
+        await screenshotWithRetry(page, screenshotPath);
+        result.screenshotPath = screenshotPath;
+      } catch (error) {
+        console.error(`Prompt ${item.id} failed:`, error);
+        result.outcome = "failed";
+        result.durationMs = Date.now() - start;
+        result.error = error instanceof Error ? error.message : String(error);
+        result.failureKind = failureKind(error);
+        result.failureBundle = await captureFailureBundle(page, {
+          error,
+          label: `prompt-${item.id}`,
+          failuresDir: path.join(outputDir, "failures"),
+        });
+      }
+    });
+
+    // Keep partial results on disk in case the process dies mid-batch
+    writeBatchResults(results, outputDir);
+  }
+
+  writeRedactedFile(
+    path.join(outputDir, "metrics.json"),
+    JSON.stringify(metrics.finish(), null, 2)
+  );
+  return results;
+}
@@ -0,0 +1,273 @@
+import { ObserveResult, Page } from "@browserbasehq/stagehand";
+import chalk from "chalk";
+import crypto from "crypto";
+import fs from "fs/promises";
+import { actWithRetry, observeWithRetry } from "./retry.js";
+import { clearOverlays, drawObserveOverlay } from "./utils.js";
+
+/**
+ * Cache of `page.observe()` results so repeated actions skip the LLM.
+ *
+ * Entries are keyed by instruction and page (origin and path, with id-like
+ * path segments collapsed), and carry a fingerprint of the page structure,
+ * the cache format version and when they were stored. An entry is only
+ * replayed if its version and fingerprint still match, it is younger than
+ * `maxAgeMs` and its selector still resolves to a visible element; otherwise
+ * it counts as stale and the action is observed and cached again.
+ *
+ * Parallel workers share the cache file: every change re-reads the file
+ * right before writing it, changes within a process are applied one at a
+ * time, and the file is replaced atomically, so no worker loses another's
+ * entries or sees a half-written file. A file that cannot be parsed is left
+ * alone rather than overwritten.
+ */
+
+export const CACHE_VERSION = 1;
+export const DEFAULT_CACHE_FILE = "action-cache.json";
+
+export interface CacheEntry {
+  version: number;
+  instruction: string;
+  page: string;
+  fingerprint: string;
+  action: ObserveResult;
+  cachedAt: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  stale: number;
+}
+
+/**
+ * Origin and path of a URL, with ids, UUIDs and numbers replaced by `:id`
+ * so that e.g. every chat of a space shares cache entries
+ */
+export function pageKey(url: string): string {
+  const { origin, pathname } = new URL(url);
+  const path = pathname
+    .split("/")
+    .map((segment) =>
+      /^\d+$/.test(segment) ||
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ||
+      (segment.length >= 16 && /\d/.test(segment) && /^[A-Za-z0-9_-]+$/.test(segment))
+        ? ":id"
+        : segment
+    )
+    .join("/");
+  return `${origin}${path}`;
+}
+
+/**
+ * Hash of the page's landmarks (header, nav, main, aside, dialogs and
+ * top-level headings). It changes when the layout around the cached
+ * element changes, not when chat content does.
+ */
+export async function pageFingerprint(page: Page): Promise<string> {
+  const landmarks = await page.evaluate(() =>
+    Array.from(
+      document.querySelectorAll(
+        "header, nav, main, aside, [role=navigation], [role=main], [role=dialog], h1"
+      )
+    ).map(
+      (element) =>
+        `${element.tagName.toLowerCase()}|${element.getAttribute("role") ?? ""}|${
+          element.getAttribute("aria-label") ?? ""
+        }`
+    )
+  );
+  return crypto.createHash("sha1").update(landmarks.join("\n")).digest("hex").slice(0, 12);
+}
+
+// Pending changes per cache file, chained so they apply one at a time
+const pendingUpdates = new Map<string, Promise<void>>();
+
+export class ActionCache {
+  readonly stats: CacheStats = { hits: 0, misses: 0, stale: 0 };
+  private filePath: string;
+  private maxAgeMs: number;
+
+  constructor({
+    filePath = DEFAULT_CACHE_FILE,
+    maxAgeMs = 7 * 24 * 60 * 60 * 1000,
+  }: { filePath?: string; maxAgeMs?: number } = {}) {
+    this.filePath = filePath;
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  /**
+   * @returns The cache entries, or undefined if the file cannot be parsed
+   */
+  private async read(): Promise<Record<string, CacheEntry> | undefined> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, "utf-8");
+    } catch {
+      // The file doesn't exist yet
+      return {};
+    }
+    try {
+      const cache = JSON.parse(text);
+      return cache && typeof cache === "object" && !Array.isArray(cache) ? cache : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async write(cache: Record<string, CacheEntry>) {
+    const tempFile = `${this.filePath}.${process.pid}-${crypto.randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tempFile, JSON.stringify(cache, null, 2));
+      await fs.rename(tempFile, this.filePath);
+    } catch (error) {
+      console.error(chalk.red("Failed to save to cache:"), error);
+      await fs.rm(tempFile, { force: true });
+    }
+  }
+
+  /**
+   * Set or (without an entry) delete one key, merged into the current file
+   */
+  private async update(key: string, entry?: CacheEntry) {
+    const previous = pendingUpdates.get(this.filePath) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      const cache = await this.read();
+      if (!cache) {
+        console.error(chalk.red(`Cache file ${this.filePath} is unreadable, not overwriting it`));
+        return;
+      }
+      if (entry) {
+        cache[key] = entry;
+      } else {
+        delete cache[key];
+      }
+      await this.write(cache);
+    });
+    pendingUpdates.set(this.filePath, next.catch(() => {}));
+    await next;
+  }
+
+  private key(instruction: string, page: Page) {
+    return `${pageKey(page.url())}::${instruction}`;
+  }
+
+  /**
+   * The cached action for an instruction on the current page, or null if
+   * there is none or it no longer applies
+   */
+  async lookup(page: Page, instruction: string): Promise<ObserveResult | null> {
+    const entry = (await this.read())?.[this.key(instruction, page)];
+    if (!entry) {
+      this.stats.misses++;
+      return null;
+    }
+
+    let reason: string | undefined;
+    if (entry.version !== CACHE_VERSION) {
+      reason = `cache version ${entry.version} is not ${CACHE_VERSION}`;
+    } else if (Date.now() - Date.parse(entry.cachedAt) > this.maxAgeMs) {
+      reason = `cached ${entry.cachedAt}, older than ${this.maxAgeMs}ms`;
+    } else if (entry.fingerprint !== (await pageFingerprint(page))) {
+      reason = "page layout changed";
+    } else if (
+      !(await page
+        .locator(entry.action.selector)
+        .first()
+        .isVisible()
+        .catch(() => false))
+    ) {
+      reason = `${entry.action.selector} is no longer visible`;
+    }
+
+    if (reason) {
+      console.log(chalk.yellow(`Stale cache entry for "${instruction}": ${reason}`));
+      this.stats.stale++;
+      await this.invalidate(page, instruction);
+      return null;
+    }
+    this.stats.hits++;
+    return entry.action;
+  }
+
+  async store(page: Page, instruction: string, action: ObserveResult) {
+    await this.update(this.key(instruction, page), {
+      version: CACHE_VERSION,
+      instruction,
+      page: pageKey(page.url()),
+      fingerprint: await pageFingerprint(page),
+      action,
+      cachedAt: new Date().toISOString(),
+    });
+  }
+
+  async invalidate(page: Page, instruction: string) {
+    await this.update(this.key(instruction, page));
+  }
+}
+
+/**
+ * This function is used to act with a cacheable action.
+ * It will first try to get the action from the cache.
+ * If not in cache, or the cached action no longer applies or fails, it
+ * will observe the page and cache the result.
+ * Then it will execute the action.
+ * @param instruction - The instruction to act with.
+ * @param cache - Cache whose stats the lookup counts towards
+ */
+export async function actWithCache(
+  page: Page,
+  instruction: string,
+  cache: ActionCache = new ActionCache()
+): Promise<void> {
+  // Try to get action from cache first
+  const cachedAction = await cache.lookup(page, instruction);
+  if (cachedAction) {
+    console.log(chalk.blue("Using cached action for:"), instruction);
+    const result = await page.act(cachedAction).catch((error: unknown) => ({
+      success: false,
+      message: error instanceof Error ? error.message : String(error),
+    }));
+    if (result.success) {
+      return;
+    }
+    // Passed the checks but did not work, e.g. the element was covered
+    console.log(chalk.yellow(`Cached action failed (${result.message}), observing again`));
+    cache.stats.hits--;
+    cache.stats.stale++;
+    await cache.invalidate(page, instruction);
+  }
+
+  // If not in cache, observe the page and cache the result
+  const results = await observeWithRetry(page, instruction);
+  console.log(chalk.blue("Got results:"), results);
+
+  // Cache the playwright action
+  const actionToCache = results[0];
+  console.log(chalk.blue("Taking cacheable action:"), actionToCache);
+  await cache.store(page, instruction, actionToCache);
+  // OPTIONAL: Draw an overlay over the relevant xpaths
+  await drawObserveOverlay(page, results);
+  await page.waitForTimeout(1000); // Can delete this line, just a pause to see the overlay
+  await clearOverlays(page);
+
+  // Execute the action
+  await actWithRetry(page, actionToCache);
+}
+
+export function sumCacheStats(stats: CacheStats[]): CacheStats {
+  return stats.reduce(
+    (total, { hits, misses, stale }) => ({
+      hits: total.hits + hits,
+      misses: total.misses + misses,
+      stale: total.stale + stale,
+    }),
+    { hits: 0, misses: 0, stale: 0 }
+  );
+}
+
+export function formatCacheStats({ hits, misses, stale }: CacheStats): string {
+  return `Action cache: ${hits} hit${hits === 1 ? "" : "s"}, ${misses} miss${
+    misses === 1 ? "" : "es"
+  }, ${stale} stale`;
+}
@@ -0,0 +1,1133 @@
+#!/usr/bin/env node
+/**
+ * athena-test: the command line entry point for every way of running the
+ * harness.
+ *
+ * ```
+ * athena-test run <scenario file or dir>... [--concurrency 2] [--name nightly]
+ * athena-test prompt --text "research news on dogs" [--agent Athena] ...
+ * athena-test workflow [--num-screenshots 10] [--interval-ms 60000]
+ * athena-test batch <prompts.jsonl|prompts.csv> [--out <dir>]
+ * athena-test analyze [--client fake] [--dir analysis]
+ * athena-test report <dir or file>
+ * athena-test approve-baselines <run dir>
+ * athena-test trend [runs dir] [--window 5] [--threshold 20]
+ * athena-test dashboard [runs dir] [--out runs/index.html]
+ * ```
+ *
+ * Option values come from, in increasing order of precedence: the command's
+ * section of `athena-test.config.json` (or `--config <file>`), environment
+ * variables named `ATHENA_TEST_<OPTION>` (e.g. `ATHENA_TEST_INTERVAL_MS`),
+ * and command line flags. The exit code tells apart what went wrong, see
+ * `EXIT_CODES` in errors.ts. `run`, `prompt` and `batch` record every run
+ * in the history under `runs/` (see history.ts).
+ */
+
+import { Stagehand } from "@browserbasehq/stagehand";
+import boxen from "boxen";
+import chalk from "chalk";
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { z } from "zod";
+import { analyzeRun, createVisionClient } from "./analysis.js";
+import { formatCacheStats, sumCacheStats } from "./cache.js";
+import { DEFAULT_PROMPT_OPTIONS, main as runPrompt } from "./athena_any_prompt.js";
+import { BatchResult, loadBatchPrompts, runBatch } from "./batch.js";
+import {
+  EXIT_CODES,
+  FailureKind,
+  failureKind,
+  InfraError,
+  UsageError,
+  worstFailure,
+} from "./errors.js";
+import { attachForensics } from "./forensics.js";
+import {
+  addLogFile,
+  captureConsole,
+  configureLogging,
+  LOG_FORMATS,
+  LOG_LEVELS,
+} from "./logger.js";
+import { renderDashboard } from "./dashboard.js";
+import {
+  casesFromBatch,
+  casesFromPromptRun,
+  casesFromSuite,
+  DEFAULT_HISTORY_DIR,
+  latestManifest,
+  loadManifests,
+  manifestPath,
+  RunCommand,
+  RunManifest,
+  writeManifest,
+} from "./history.js";
+import { DEFAULT_WORKFLOW_OPTIONS, main as runWorkflow } from "./main.js";
+import {
+  compareRuns,
+  formatTrend,
+  loadPromptRunMetrics,
+  loadSuiteReports,
+  summarizeMetrics,
+} from "./metrics.js";
+import { MockAthena, startMockAthena } from "./mock-athena.js";
+import { summarizeNetwork } from "./network.js";
+import { formatPageError, PAGE_ERROR_POLICIES } from "./page-errors.js";
+import { createRunId, runParallel } from "./pool.js";
+import {
+  RecordingArtifacts,
+  recordingLaunchOptions,
+  RecordingModeSchema,
+  RecordingOptions,
+  startRecording,
+} from "./recording.js";
+import { writeReports } from "./report.js";
+import { loadSuite, SuiteResult, runSuite } from "./runner.js";
+import {
+  DEFAULT_PROFILE,
+  getProfile,
+  Profile,
+  profileSecretNames,
+  validateProfileSecrets,
+} from "./profiles.js";
+import { clearSessions } from "./session.js";
+import { writeRedactedFile } from "./secrets.js";
+import { createStagehandConfig } from "./stagehand.config.js";
+import { announce } from "./utils.js";
+import { approveBaselines, DEFAULT_BASELINES_DIR, VisualSettings } from "./visual.js";
+
+dotenv.config();
+captureConsole();
+
+const DEFAULT_CONFIG_FILE = "athena-test.config.json";
+
+interface OptionSpec {
+  type: "string" | "boolean";
+  description: string;
+}
+
+interface CommandContext {
+  profile: Profile;
+  runId: string;
+  startedAt: number;
+}
+
+interface Command<T extends z.ZodTypeAny = z.ZodTypeAny> {
+  summary: string;
+  usage: string;
+  options: Record<string, OptionSpec>; // Keyed by the kebab-case flag name
+  schema: T; // Validates the merged, camelCased option values
+  run(
+    options: z.infer<T>,
+    positionals: string[],
+    context: CommandContext
+  ): Promise<FailureKind | undefined>;
+}
+
+function defineCommand<T extends z.ZodTypeAny>(command: Command<T>): Command<T> {
+  return command;
+}
+
+// Options shared by the commands that drive a browser
+const RECORDING_OPTIONS: Record<string, OptionSpec> = {
+  trace: {
+    type: "string",
+    description: "Record a Playwright trace: never, on-failure or always (default: never)",
+  },
+  video: {
+    type: "string",
+    description: "Record video (local browser only): never, on-failure or always (default: never)",
+  },
+};
+
+// `;`-separated on the command line and in the environment, an array in the config file
+const termList = z.union([
+  z.array(z.string()),
+  z.string().transform((value) =>
+    value
+      .split(";")
+      .map((term) => term.trim())
+      .filter(Boolean)
+  ),
+]);
+
+const recordingSchema = {
+  trace: RecordingModeSchema.default("never"),
+  video: RecordingModeSchema.default("never"),
+};
+
+async function createStagehand(
+  profile: Profile,
+  recording?: RecordingOptions
+): Promise<Stagehand> {
+  validateProfileSecrets(profile);
+  const config = createStagehandConfig(profile);
+  const stagehand = new Stagehand({
+    ...config,
+    localBrowserLaunchOptions: {
+      ...config.localBrowserLaunchOptions,
+      ...(recording ? recordingLaunchOptions(recording) : {}),
+    },
+  });
+  try {
+    await stagehand.init();
+    attachForensics(stagehand.page);
+  } catch (error) {
+    throw new InfraError("Could not start a browser session", { cause: error });
+  }
+
+  if (profile.env === "BROWSERBASE" && stagehand.browserbaseSessionID) {
+    console.log(
+      boxen(
+        `View this session live in your browser: \n${chalk.blue(
+          `https://browserbase.com/sessions/${stagehand.browserbaseSessionID}`
+        )}`,
+        {
+          title: "Browserbase",
+          padding: 1,
+          margin: 3,
+        }
+      )
+    );
+  }
+  return stagehand;
+}
+
+/**
+ * Write the manifest of a run into the history (see history.ts)
+ */
+function recordRun(
+  command: RunCommand,
+  { profile, runId, startedAt }: CommandContext,
+  fields: Pick<RunManifest, "name" | "options" | "inputs" | "cases" | "artifacts"> &
+    Partial<Pick<RunManifest, "failureKind" | "error">>
+) {
+  const failed = fields.failureKind !== undefined || fields.cases.some((c) => c.status === "failed");
+  const file = writeManifest({
+    runId,
+    command,
+    status: failed ? "failed" : "passed",
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    profile: {
+      name: profile.name,
+      baseUrl: profile.baseUrl,
+      env: profile.env,
+      modelName: profile.modelName,
+    },
+    ...fields,
+  });
+  console.log(`Run recorded in ${file}`);
+}
+
+function formatMetricsSummary(summary: ReturnType<typeof summarizeMetrics>): string {
+  return chalk.dim(
+    [
+      summary.loginMs !== undefined ? `login ${summary.loginMs}ms` : "",
+      summary.timeToFirstTokenMs !== undefined ? `first token ${summary.timeToFirstTokenMs}ms` : "",
+      summary.timeToCompletionMs !== undefined ? `completion ${summary.timeToCompletionMs}ms` : "",
+      summary.largestContentfulPaintMs !== undefined ? `LCP ${summary.largestContentfulPaintMs}ms` : "",
+      `${summary.apiRequests ?? 0} API requests`,
+    ]
+      .filter(Boolean)
+      .join(", ")
+  );
+}
+
+function formatPageErrors(result: SuiteResult["cases"][number]): string {
+  const errors = result.steps.flatMap((step) => step.pageErrors ?? []);
+  if (errors.length === 0) {
+    return "";
+  }
+  return `\n    ${chalk.yellow(`${errors.length} page errors, first: ${formatPageError(errors[0])}`)}`;
+}
+
+function printSuiteSummary(result: SuiteResult, reportPaths: string[]) {
+  const cache = sumCacheStats(result.cases.map((c) => c.cache));
+  const drift = [
+    ...new Set(
+      result.cases.flatMap((c) =>
+        c.locators
+          .filter((record) => record.primaryBroken)
+          .map((record) => `UI drift: ${record.element} found with ${record.strategy}`)
+      )
+    ),
+  ];
+  announce(
+    [
+      ...result.cases.map(
+        (c) =>
+          `${c.status === "passed" ? chalk.green("✔") : chalk.red("✘")} ${c.name} (${c.durationMs}ms)${
+            c.error ? `\n    ${chalk.red(c.error)}` : ""
+          }${c.failureBundle ? `\n    Failure bundle: ${c.failureBundle}` : ""}${
+            c.metrics ? `\n    ${formatMetricsSummary(summarizeMetrics(c.metrics))}` : ""
+          }${c.network ? `\n    ${chalk.dim(summarizeNetwork(c.network))}` : ""}${formatPageErrors(c)}`
+      ),
+      "",
+      `${result.passed} passed, ${result.failed} failed in ${result.durationMs}ms`,
+      ...(cache.hits + cache.misses + cache.stale > 0 ? [formatCacheStats(cache)] : []),
+      ...drift.map((line) => chalk.yellow(line)),
+      ...(reportPaths.length ? [`Reports: ${reportPaths.join(", ")}`] : []),
+    ].join("\n"),
+    result.name
+  );
+}
+
+function printBatchSummary(results: BatchResult[], resultsPath: string) {
+  const counts = results.reduce<Record<string, number>>((acc, result) => {
+    acc[result.outcome] = (acc[result.outcome] || 0) + 1;
+    return acc;
+  }, {});
+  const missing = results.filter((result) => result.missingKeywords.length > 0).length;
+  const violations = results.filter((result) => result.violations?.length > 0).length;
+  announce(
+    [
+      ...Object.entries(counts).map(([outcome, count]) => `${outcome}: ${count}`),
+      `missing keywords: ${missing}`,
+      `unmet answer expectations: ${violations}`,
+      "",
+      `Results: ${resultsPath}`,
+    ].join("\n"),
+    `Batch of ${results.length} prompts`
+  );
+}
+
+function batchFailure(results: BatchResult[]): FailureKind | undefined {
+  return worstFailure(
+    results.flatMap((result): FailureKind[] => [
+      ...(result.failureKind ? [result.failureKind] : []),
+      ...(result.violations?.length ? ["test" as const] : []),
+    ])
+  );
+}
+
+const commands = {
+  run: defineCommand({
+    summary: "Run scenario files as a test suite",
+    usage: "athena-test run <scenario file or dir>... [options]",
+    options: {
+      name: { type: "string", description: "Suite name used in reports (default: athena)" },
+      concurrency: {
+        type: "string",
+        description: "Scenarios to run at once, each on its own session (default: 1)",
+      },
+      baselines: {
+        type: "string",
+        description: `Baseline screenshots directory (default: ${DEFAULT_BASELINES_DIR})`,
+      },
+      "update-baselines": {
+        type: "boolean",
+        description: "Save screenshots and accessibility violations as new baselines instead of checking",
+      },
+      "page-errors": {
+        type: "string",
+        description: `What console and page errors do to a scenario: ${PAGE_ERROR_POLICIES.join(", ")} (default: warn)`,
+      },
+      ...RECORDING_OPTIONS,
+    },
+    schema: z
+      .object({
+        name: z.string().default("athena"),
+        concurrency: z.coerce.number().int().positive().default(1),
+        baselines: z.string().default(DEFAULT_BASELINES_DIR),
+        updateBaselines: z
+          .union([z.boolean(), z.enum(["true", "false"]).transform((value) => value === "true")])
+          .default(false),
+        pageErrors: z.enum(PAGE_ERROR_POLICIES).default("warn"),
+        ...recordingSchema,
+      })
+      .strict(),
+    async run(options, positionals, context) {
+      const { profile, runId } = context;
+      if (positionals.length === 0) {
+        throw new UsageError("Pass at least one scenario file or directory");
+      }
+      const scenarios = loadSuite(positionals, profileSecretNames(profile));
+      const runDir = path.join(DEFAULT_HISTORY_DIR, runId);
+      addLogFile(path.join(runDir, "log.jsonl"));
+      const visual: VisualSettings = {
+        baselinesDir: options.baselines,
+        outputDir: path.join(runDir, "visual"),
+        update: options.updateBaselines,
+      };
+
+      let result: SuiteResult | undefined;
+      if (options.concurrency > 1) {
+        validateProfileSecrets(profile);
+        result = await runParallel({
+          name: options.name,
+          scenarios,
+          concurrency: options.concurrency,
+          runDir,
+          profile,
+          recording: { trace: options.trace, video: options.video },
+          visual,
+          pageErrorPolicy: options.pageErrors,
+        });
+      } else {
+        const recordingOptions: RecordingOptions = {
+          trace: options.trace,
+          video: options.video,
+          dir: path.join(runDir, "recordings"),
+        };
+        const stagehand = await createStagehand(profile, recordingOptions);
+        const recording = await startRecording(stagehand.context, recordingOptions);
+        try {
+          result = await runSuite({
+            page: stagehand.page,
+            context: stagehand.context,
+            stagehand,
+            profile,
+            name: options.name,
+            scenarios,
+            screenshotsDir: path.join(runDir, "screenshots"),
+            failuresDir: path.join(runDir, "failures"),
+            visual,
+            pageErrorPolicy: options.pageErrors,
+          });
+        } finally {
+          const artifacts = await recording.finish({
+            failed: !result || result.failed > 0,
+            close: () => stagehand.close(),
+          });
+          if (result) {
+            result.recording = artifacts;
+          }
+        }
+      }
+
+      const { jsonPath, junitPath } = writeReports(result, runDir);
+      printSuiteSummary(result, [jsonPath, junitPath]);
+      const failure = worstFailure(
+        result.cases
+          .filter((c) => c.status === "failed")
+          .map((c) => c.failureKind ?? "test")
+      );
+      recordRun("run", context, {
+        name: options.name,
+        options,
+        inputs: positionals,
+        cases: casesFromSuite(result),
+        failureKind: failure,
+        artifacts: {
+          reports: [jsonPath, junitPath],
+          log: path.join(runDir, "log.jsonl"),
+          ...(result.recording?.trace ? { trace: result.recording.trace } : {}),
+          ...(result.recording?.traceParts
+            ? { traceParts: result.recording.traceParts }
+            : {}),
+          ...(result.recording?.videos.length ? { videos: result.recording.videos } : {}),
+        },
+      });
+      return failure;
+    },
+  }),
+
+  workflow: defineCommand({
+    summary: "Open the first suggested workflow in Spaces and screenshot it at an interval",
+    usage: "athena-test workflow [options]",
+    options: {
+      "interval-ms": {
+        type: "string",
+        description: `Time between screenshots (default: ${DEFAULT_WORKFLOW_OPTIONS.intervalMs})`,
+      },
+      "num-screenshots": {
+        type: "string",
+        description: `Screenshots to take (default: ${DEFAULT_WORKFLOW_OPTIONS.numScreenshots})`,
+      },
+    },
+    schema: z
+      .object({
+        intervalMs: z.coerce.number().int().positive().default(DEFAULT_WORKFLOW_OPTIONS.intervalMs),
+        numScreenshots: z.coerce
+          .number()
+          .int()
+          .positive()
+          .default(DEFAULT_WORKFLOW_OPTIONS.numScreenshots),
+      })
+      .strict(),
+    async run(options, _positionals, context) {
+      const { profile, runId } = context;
+      const runDir = path.join(DEFAULT_HISTORY_DIR, runId);
+      addLogFile(path.join(runDir, "log.jsonl"));
+      const stagehand = await createStagehand(profile);
+      let error: unknown;
+      try {
+        await runWorkflow({
+          page: stagehand.page,
+          context: stagehand.context,
+          stagehand,
+          profile,
+          options: { ...options, outputDir: runDir },
+        });
+      } catch (caught) {
+        error = caught;
+        throw caught;
+      } finally {
+        await stagehand.close();
+        recordRun("workflow", context, {
+          name: "workflow",
+          options,
+          inputs: [],
+          cases: casesFromPromptRun(runDir, {
+            name: "First suggested workflow",
+            startedAt: context.startedAt,
+            error,
+          }),
+          artifacts: {
+            analysis: path.join(runDir, "analysis"),
+            log: path.join(runDir, "log.jsonl"),
+          },
+        });
+      }
+      announce(`Screenshots and analysis in ${runDir}`, "Workflow");
+      return undefined;
+    },
+  }),
+
+  prompt: defineCommand({
+    summary: "Send one prompt to an agent and capture its response",
+    usage: "athena-test prompt --text <prompt> [options]",
+    options: {
+      text: { type: "string", description: `Prompt to send (default: "${DEFAULT_PROMPT_OPTIONS.prompt}")` },
+      agent: { type: "string", description: "Agent to select in Spaces (default: Athena)" },
+      capture: {
+        type: "string",
+        description: "completion (stop when the agent is done) or interval (default: completion)",
+      },
+      "interval-ms": { type: "string", description: "Time between screenshots (default: 60000)" },
+      "num-screenshots": {
+        type: "string",
+        description: "Screenshots to take in interval mode (default: 10)",
+      },
+      "timeout-ms": {
+        type: "string",
+        description: "Completion timeout (default: num-screenshots × interval-ms)",
+      },
+      analyze: {
+        type: "string",
+        description: "Analyze the screenshots afterwards with: anthropic or fake",
+      },
+      "must-mention": {
+        type: "string",
+        description: "Terms the answer must contain, separated by ;",
+      },
+      "must-not-mention": {
+        type: "string",
+        description: "Terms the answer must not contain, separated by ;",
+      },
+      "min-sources": { type: "string", description: "Sources the answer must cite at least" },
+      "max-latency-ms": {
+        type: "string",
+        description: "Longest time from sending the prompt to completion",
+      },
+      "save-answer": {
+        type: "boolean",
+        description: "Extract and save the answer even without expectations",
+      },
+      ...RECORDING_OPTIONS,
+    },
+    schema: z
+      .object({
+        text: z.string().min(1).default(DEFAULT_PROMPT_OPTIONS.prompt),
+        agent: z.string().min(1).default(DEFAULT_PROMPT_OPTIONS.agent),
+        capture: z.enum(["completion", "interval"]).default(DEFAULT_PROMPT_OPTIONS.capture),
+        intervalMs: z.coerce.number().int().positive().default(DEFAULT_PROMPT_OPTIONS.intervalMs),
+        numScreenshots: z.coerce
+          .number()
+          .int()
+          .positive()
+          .default(DEFAULT_PROMPT_OPTIONS.numScreenshots),
+        timeoutMs: z.coerce.number().int().positive().optional(),
+        analyze: z.enum(["anthropic", "fake"]).optional(),
+        mustMention: termList.default([]),
+        mustNotMention: termList.default([]),
+        minSources: z.coerce.number().int().nonnegative().optional(),
+        maxLatencyMs: z.coerce.number().int().positive().optional(),
+        saveAnswer: z
+          .union([z.boolean(), z.enum(["true", "false"]).transform((value) => value === "true")])
+          .default(false),
+        ...recordingSchema,
+      })
+      .strict(),
+    async run(allOptions, _positionals, context) {
+      const { text, trace, video, mustMention, mustNotMention, minSources, maxLatencyMs, ...options } =
+        allOptions;
+      const { profile, runId } = context;
+      const runDir = path.join(DEFAULT_HISTORY_DIR, runId);
+      addLogFile(path.join(runDir, "log.jsonl"));
+      const recordingOptions: RecordingOptions = {
+        trace,
+        video,
+        dir: path.join(runDir, "recordings"),
+      };
+      const stagehand = await createStagehand(profile, recordingOptions);
+      const recording = await startRecording(stagehand.context, recordingOptions);
+      let failed = true;
+      let error: unknown;
+      let artifacts: RecordingArtifacts | undefined;
+      try {
+        await runPrompt({
+          page: stagehand.page,
+          context: stagehand.context,
+          stagehand,
+          profile,
+          options: {
+            prompt: text,
+            ...options,
+            expect: { mustMention, mustNotMention, minSources, maxLatencyMs },
+            outputDir: runDir,
+          },
+        });
+        failed = false;
+      } catch (caught) {
+        error = caught;
+        throw caught;
+      } finally {
+        artifacts = await recording.finish({ failed, close: () => stagehand.close() });
+        recordRun("prompt", context, {
+          name: text,
+          options: allOptions,
+          inputs: [],
+          cases: casesFromPromptRun(runDir, {
+            name: `${options.agent}: ${text}`,
+            startedAt: context.startedAt,
+            error,
+          }),
+          artifacts: {
+            analysis: path.join(runDir, "analysis"),
+            log: path.join(runDir, "log.jsonl"),
+            ...(artifacts.trace ? { trace: artifacts.trace } : {}),
+            ...(artifacts.traceParts ? { traceParts: artifacts.traceParts } : {}),
+            ...(artifacts.videos.length ? { videos: artifacts.videos } : {}),
+          },
+        });
+      }
+      return undefined;
+    },
+  }),
+
+  batch: defineCommand({
+    summary: "Run every prompt of a JSONL or CSV file in one logged-in session",
+    usage: "athena-test batch <prompts.jsonl|prompts.csv> [options]",
+    options: {
+      out: {
+        type: "string",
+        description: "Directory for the results matrix (default: runs/<runId>)",
+      },
+      ...RECORDING_OPTIONS,
+    },
+    schema: z.object({ out: z.string().optional(), ...recordingSchema }).strict(),
+    async run(options, positionals, context) {
+      const { profile, runId } = context;
+      if (positionals.length !== 1) {
+        throw new UsageError("Pass exactly one prompts file");
+      }
+      const prompts = loadBatchPrompts(positionals[0]);
+      const outputDir = options.out || path.join(DEFAULT_HISTORY_DIR, runId);
+
+      addLogFile(path.join(outputDir, "log.jsonl"));
+      const recordingOptions: RecordingOptions = {
+        trace: options.trace,
+        video: options.video,
+        dir: path.join(outputDir, "recordings"),
+      };
+      const stagehand = await createStagehand(profile, recordingOptions);
+      const recording = await startRecording(stagehand.context, recordingOptions);
+      let results: BatchResult[] | undefined;
+      let artifacts: RecordingArtifacts;
+      try {
+        results = await runBatch({ page: stagehand.page, profile, prompts, outputDir });
+      } finally {
+        artifacts = await recording.finish({
+          failed: !results || batchFailure(results) !== undefined,
+          close: () => stagehand.close(),
+        });
+      }
+
+      printBatchSummary(results, path.join(outputDir, "results.csv"));
+      const failure = batchFailure(results);
+      recordRun("batch", context, {
+        name: path.basename(positionals[0]),
+        options,
+        inputs: positionals,
+        cases: casesFromBatch(results),
+        failureKind: failure,
+        artifacts: {
+          results: path.join(outputDir, "results.csv"),
+          metrics: path.join(outputDir, "metrics.json"),
+          log: path.join(outputDir, "log.jsonl"),
+          ...(artifacts.trace ? { trace: artifacts.trace } : {}),
+          ...(artifacts.traceParts ? { traceParts: artifacts.traceParts } : {}),
+          ...(artifacts.videos.length ? { videos: artifacts.videos } : {}),
+        },
+      });
+      return failure;
+    },
+  }),
+
+  analyze: defineCommand({
+    summary: "Ask a vision model for a verdict on the screenshots of a prompt run",
+    usage: "athena-test analyze [options]",
+    options: {
+      client: { type: "string", description: "anthropic or fake (default: anthropic)" },
+      dir: {
+        type: "string",
+        description:
+          "Directory with screenshot_paths.json and prompt.txt (default: that of the latest prompt run)",
+      },
+    },
+    schema: z
+      .object({
+        client: z.enum(["anthropic", "fake"]).default("anthropic"),
+        dir: z.string().optional(),
+      })
+      .strict(),
+    async run(options, _positionals, { profile }) {
+      const latest = latestManifest("prompt");
+      const dir =
+        options.dir ??
+        (latest ? path.join(DEFAULT_HISTORY_DIR, latest.runId, "analysis") : undefined);
+      const verdict = await analyzeRun(createVisionClient(options.client, profile), dir);
+      announce(
+        [
+          `Responded:     ${verdict.responded}`,
+          `Finished:      ${verdict.finished}`,
+          `Errored:       ${verdict.errored}`,
+          `Quality score: ${verdict.qualityScore}/10`,
+          "",
+          verdict.rationale,
+        ].join("\n"),
+        "Verdict"
+      );
+      return verdict.responded && verdict.finished && !verdict.errored ? undefined : "agent";
+    },
+  }),
+
+  report: defineCommand({
+    summary: "Summarize the suite reports and batch results in a directory",
+    usage: "athena-test report <dir or file>",
+    options: {},
+    schema: z.object({}).strict(),
+    async run(_options, positionals) {
+      if (positionals.length !== 1) {
+        throw new UsageError("Pass exactly one report directory or file");
+      }
+      const input = positionals[0];
+      if (!fs.existsSync(input)) {
+        throw new UsageError(`${input} does not exist`);
+      }
+      const files = fs.statSync(input).isDirectory()
+        ? fs
+            .readdirSync(input)
+            .filter((file) => file.endsWith(".json"))
+            .map((file) => path.join(input, file))
+        : [input];
+
+      let found = 0;
+      for (const file of files) {
+        let data;
+        try {
+          data = JSON.parse(fs.readFileSync(file, "utf8"));
+        } catch {
+          console.log(`Skipping ${file}: not valid JSON`);
+          continue;
+        }
+        if (
+          Array.isArray(data) &&
+          data.length > 0 &&
+          data.every((row) => typeof row === "object" && row !== null && "outcome" in row)
+        ) {
+          printBatchSummary(data, file);
+          found++;
+        } else if (data && Array.isArray(data.cases) && typeof data.passed === "number") {
+          printSuiteSummary(data, [file]);
+          found++;
+        }
+      }
+      if (found === 0) {
+        throw new UsageError(`No suite reports or batch results found in ${input}`);
+      }
+      return undefined;
+    },
+  }),
+
+  trend: defineCommand({
+    summary: "Compare the latency metrics of the latest run against earlier runs",
+    usage: "athena-test trend [runs dir] [options]",
+    options: {
+      window: {
+        type: "string",
+        description: "Earlier runs to take the median of as baseline (default: 5)",
+      },
+      threshold: {
+        type: "string",
+        description: "Percent above the baseline that counts as a regression (default: 20)",
+      },
+      out: { type: "string", description: "Also write the table to this Markdown file" },
+      "fail-on-regression": {
+        type: "boolean",
+        description: "Exit with a test failure if any metric regressed",
+      },
+    },
+    schema: z
+      .object({
+        window: z.coerce.number().int().positive().default(5),
+        threshold: z.coerce.number().nonnegative().default(20),
+        out: z.string().optional(),
+        failOnRegression: z
+          .union([z.boolean(), z.enum(["true", "false"]).transform((value) => value === "true")])
+          .default(false),
+      })
+      .strict(),
+    async run(options, positionals) {
+      if (positionals.length > 1) {
+        throw new UsageError("Pass at most one runs directory");
+      }
+      const dir = positionals[0] ?? DEFAULT_HISTORY_DIR;
+      if (!fs.existsSync(dir)) {
+        throw new UsageError(`${dir} does not exist`);
+      }
+      const reports = loadSuiteReports(dir);
+      const promptRuns = loadPromptRunMetrics(dir);
+      const rows = compareRuns(reports, {
+        promptRuns,
+        window: options.window,
+        thresholdPct: options.threshold,
+      });
+      if (rows.length === 0) {
+        throw new UsageError(`No suite reports or prompt metrics found in ${dir}`);
+      }
+      const table = formatTrend(rows);
+      if (options.out) {
+        fs.mkdirSync(path.dirname(options.out), { recursive: true });
+        fs.writeFileSync(options.out, table + "\n");
+      }
+      const regressions = rows.filter((row) => row.regressed);
+      announce(
+        [
+          table,
+          "",
+          `${reports.length + promptRuns.length} runs, ${regressions.length} regression${
+            regressions.length === 1 ? "" : "s"
+          } over ${options.threshold}%`,
+          ...(options.out ? [`Written to ${options.out}`] : []),
+        ].join("\n"),
+        "Trend"
+      );
+      return options.failOnRegression && regressions.length ? "test" : undefined;
+    },
+  }),
+
+  dashboard: defineCommand({
+    summary: "Render the run history as a static HTML dashboard",
+    usage: "athena-test dashboard [runs dir] [options]",
+    options: {
+      out: { type: "string", description: "HTML file to write (default: <runs dir>/index.html)" },
+    },
+    schema: z.object({ out: z.string().optional() }).strict(),
+    async run(options, positionals) {
+      if (positionals.length > 1) {
+        throw new UsageError("Pass at most one runs directory");
+      }
+      const dir = positionals[0] ?? DEFAULT_HISTORY_DIR;
+      const manifests = loadManifests(dir);
+      if (manifests.length === 0) {
+        throw new UsageError(`No run manifests found in ${dir}`);
+      }
+      const out = options.out ?? path.join(dir, "index.html");
+      fs.mkdirSync(path.dirname(out), { recursive: true });
+      writeRedactedFile(out, renderDashboard(manifests, out));
+      announce(`${manifests.length} runs\n${path.resolve(out)}`, "Dashboard");
+      return undefined;
+    },
+  }),
+
+  "approve-baselines": defineCommand({
+    summary: "Accept the screenshots of failed visual and accessibility checks as new baselines",
+    usage: "athena-test approve-baselines <run dir> [options]",
+    options: {
+      baselines: {
+        type: "string",
+        description: `Baseline screenshots directory (default: ${DEFAULT_BASELINES_DIR})`,
+      },
+      only: {
+        type: "string",
+        description: "Only approve baselines whose path contains this text",
+      },
+    },
+    schema: z
+      .object({ baselines: z.string().default(DEFAULT_BASELINES_DIR), only: z.string().optional() })
+      .strict(),
+    async run(options, positionals) {
+      if (positionals.length !== 1) {
+        throw new UsageError("Pass exactly one run directory");
+      }
+      // Accept both runs/<runId> and runs/<runId>/visual
+      const input = positionals[0];
+      const outputDir = fs.existsSync(path.join(input, "visual")) ? path.join(input, "visual") : input;
+      if (!fs.existsSync(outputDir)) {
+        throw new UsageError(`${input} does not exist`);
+      }
+      const approved = approveBaselines(outputDir, options.baselines, options.only);
+      if (approved.length === 0) {
+        throw new UsageError(`No screenshots or accessibility results to approve in ${outputDir}`);
+      }
+      announce(approved.join("\n"), `Approved ${approved.length} baselines`);
+      return undefined;
+    },
+  }),
+};
+
+type CommandName = keyof typeof commands;
+
+function formatHelp(name?: CommandName): string {
+  if (!name) {
+    return [
+      "Usage: athena-test <command> [options]",
+      "",
+      "Commands:",
+      ...Object.entries(commands).map(
+        ([commandName, command]) => `  ${commandName.padEnd(19)}${command.summary}`
+      ),
+      "",
+      "Global options:",
+      `  --config <file>    Config file (default: ${DEFAULT_CONFIG_FILE} if present)`,
+      `  --profile <name>   Environment profile (default: ATHENA_PROFILE or ${DEFAULT_PROFILE})`,
+      "  --log-format <f>   pretty or json lines (default: ATHENA_LOG_FORMAT or pretty)",
+      "  --log-level <l>    debug, info, warn or error (default: ATHENA_LOG_LEVEL or info)",
+      "  --fresh-login      Delete the profile's saved sessions and log in again",
+      "  -h, --help         Show help",
+      "",
+      "Run `athena-test <command> --help` for the options of a command.",
+      "",
+      "Exit codes:",
+      ...Object.entries(EXIT_CODES).map(([kind, code]) => `  ${code}  ${kind} failure`),
+    ].join("\n");
+  }
+  const command = commands[name];
+  return [
+    `Usage: ${command.usage}`,
+    "",
+    command.summary,
+    "",
+    "Options:",
+    ...Object.entries(command.options).map(
+      ([flag, spec]) => `  --${`${flag}${spec.type === "string" ? " <value>" : ""}`.padEnd(26)}${spec.description}`
+    ),
+    `  --${"config <file>".padEnd(26)}Config file (default: ${DEFAULT_CONFIG_FILE} if present)`,
+    `  --${"profile <name>".padEnd(26)}Environment profile (default: ATHENA_PROFILE or ${DEFAULT_PROFILE})`,
+    `  --${"log-format <value>".padEnd(26)}pretty or json lines (default: ATHENA_LOG_FORMAT or pretty)`,
+    `  --${"log-level <value>".padEnd(26)}debug, info, warn or error (default: ATHENA_LOG_LEVEL or info)`,
+    `  --${"fresh-login".padEnd(26)}Delete the profile's saved sessions and log in again`,
+    `  --${"help".padEnd(26)}Show this help`,
+  ].join("\n");
+}
+
+const camelCase = (flag: string) => flag.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+const envName = (flag: string) => `ATHENA_TEST_${flag.replace(/-/g, "_").toUpperCase()}`;
+
+const ConfigFileSchema = z
+  .object(
+    Object.fromEntries(
+      [...Object.keys(commands), "profiles"].map((name) => [
+        name,
+        z.record(z.unknown()).optional(),
+      ])
+    )
+  )
+  .strict();
+
+function readConfigFile(explicitPath?: string): z.infer<typeof ConfigFileSchema> {
+  const configPath = explicitPath || DEFAULT_CONFIG_FILE;
+  if (!fs.existsSync(configPath)) {
+    if (explicitPath) {
+      throw new UsageError(`Config file ${explicitPath} not found`);
+    }
+    return {};
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    throw new UsageError(`Config file ${configPath} is not valid JSON`, { cause: error });
+  }
+  const result = ConfigFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new UsageError(`Invalid config file ${configPath}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Parse and validate the command line, merging config file, environment
+ * and flag values
+ * @returns The command to run with its options, or the help text to print
+ */
+function parseCommandLine(argv: string[]) {
+  const [name, ...rest] = argv;
+  if (!name || name === "--help" || name === "-h") {
+    return { help: formatHelp() };
+  }
+  if (!(name in commands)) {
+    throw new UsageError(`Unknown command "${name}"\n\n${formatHelp()}`);
+  }
+  const commandName = name as CommandName;
+  const command: Command = commands[commandName];
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: rest,
+      allowPositionals: true,
+      strict: true,
+      options: {
+        ...Object.fromEntries(
+          Object.entries(command.options).map(([flag, spec]) => [flag, { type: spec.type }])
+        ),
+        config: { type: "string" },
+        profile: { type: "string" },
+        "log-format": { type: "string" },
+        "log-level": { type: "string" },
+        "fresh-login": { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(`${(error as Error).message}\n\n${formatHelp(commandName)}`);
+  }
+  const {
+    config,
+    profile,
+    "log-format": logFormat,
+    "log-level": logLevel,
+    "fresh-login": freshLogin,
+    help,
+    ...flags
+  } = parsed.values as Record<string, unknown>;
+  if (help) {
+    return { help: formatHelp(commandName) };
+  }
+
+  const logging = z
+    .object({ format: z.enum(LOG_FORMATS).optional(), level: z.enum(LOG_LEVELS).optional() })
+    .safeParse({
+      format: logFormat ?? process.env.ATHENA_LOG_FORMAT,
+      level: logLevel ?? process.env.ATHENA_LOG_LEVEL,
+    });
+  if (!logging.success) {
+    throw new UsageError(
+      `Invalid logging options: ${logging.error.issues
+        .map((issue) => `log-${issue.path.join(".")}: ${issue.message}`)
+        .join(", ")}`
+    );
+  }
+  configureLogging(logging.data);
+
+  const configFile = readConfigFile(config as string | undefined);
+  const merged: Record<string, unknown> = { ...(configFile[commandName] ?? {}) };
+  for (const flag of Object.keys(command.options)) {
+    const fromEnv = process.env[envName(flag)];
+    if (fromEnv !== undefined) {
+      merged[camelCase(flag)] = fromEnv;
+    }
+    if (flags[flag] !== undefined) {
+      merged[camelCase(flag)] = flags[flag];
+    }
+  }
+
+  const options = command.schema.safeParse(merged);
+  if (!options.success) {
+    throw new UsageError(
+      `Invalid options for "${commandName}":\n${options.error.issues
+        .map((issue) => `  ${issue.path.join(".") || "<root>"}: ${issue.message}`)
+        .join("\n")}`
+    );
+  }
+  return {
+    command,
+    options: options.data,
+    positionals: parsed.positionals,
+    freshLogin: Boolean(freshLogin),
+    profile: getProfile(
+      (profile as string | undefined) ?? undefined,
+      (config as string | undefined) ?? DEFAULT_CONFIG_FILE
+    ),
+  };
+}
+
+/**
+ * Serve the mock Athena app for a mock profile, unless it is already running
+ * (e.g. with `npm run mock-athena`)
+ */
+async function startMockForProfile(profile: Profile): Promise<MockAthena | undefined> {
+  if (!profile.mock) {
+    return undefined;
+  }
+  try {
+    return await startMockAthena({ port: Number(new URL(profile.baseUrl).port) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EADDRINUSE") {
+      console.log(`Using the mock Athena already running at ${profile.baseUrl}`);
+      return undefined;
+    }
+    throw new InfraError("Could not start the mock Athena app", { cause: error });
+  }
+}
+
+async function cli() {
+  let failure: FailureKind | undefined;
+  let mock: MockAthena | undefined;
+  let context: CommandContext | undefined;
+  let positionals: string[] = [];
+  try {
+    const parsed = parseCommandLine(process.argv.slice(2));
+    if ("help" in parsed) {
+      console.log(parsed.help);
+      return;
+    }
+    positionals = parsed.positionals;
+    const runId = createRunId();
+    configureLogging({ runId });
+    if (parsed.freshLogin) {
+      const cleared = clearSessions(parsed.profile.name);
+      console.log(`Cleared ${cleared.length} saved session${cleared.length === 1 ? "" : "s"}`);
+    }
+    mock = await startMockForProfile(parsed.profile);
+    context = { profile: parsed.profile, runId, startedAt: Date.now() };
+    failure = await parsed.command.run(parsed.options, parsed.positionals, context);
+  } catch (error) {
+    failure = failureKind(error);
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    if (failure !== "usage" && error instanceof Error && error.cause) {
+      console.error(error.cause);
+    }
+    // Runs that failed before recording themselves still belong in the history
+    const command = process.argv[2];
+    if (
+      context &&
+      failure !== "usage" &&
+      (command === "run" || command === "batch") &&
+      !fs.existsSync(manifestPath(context.runId))
+    ) {
+      recordRun(command, context, {
+        name: command,
+        options: {},
+        inputs: positionals,
+        cases: [],
+        failureKind: failure,
+        error: error instanceof Error ? error.message : String(error),
+        artifacts: {},
+      });
+    }
+  } finally {
+    await mock?.close();
+  }
+  if (failure) {
+    process.exitCode = EXIT_CODES[failure];
+  }
+}
+
+cli();
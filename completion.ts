@@ -0,0 +1,192 @@
+import { Page } from "@browserbasehq/stagehand";
+
+/**
+ * Detect when the agent is done with a prompt instead of sleeping for a fixed
+ * time. Each poll looks at three signals:
+ *
+ * - an error banner with text appearing in the chat → `error`
+ * - the "stop" button disappearing after it was shown → `completed`
+ * - the chat DOM and its fetch/XHR traffic staying quiet for `quietMs`
+ *   after the response started changing → `completed`
+ *
+ * Long-lived connections do not keep the network busy: EventSource and
+ * WebSocket connections are ignored, and so is a request (such as a chat
+ * stream kept open) that has been pending for longer than `quietMs`.
+ *
+ * If none of them fires before `timeoutMs` the outcome is `timeout`.
+ */
+
+export type CompletionOutcome = "completed" | "error" | "timeout";
+
+export interface CompletionResult {
+  outcome: CompletionOutcome;
+  reason: string;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  errorText?: string;
+}
+
+export interface CompletionOptions {
+  timeoutMs?: number;
+  pollMs?: number;
+  quietMs?: number; // How long DOM and network must be idle to count as finished
+  stopButtonSelector?: string;
+  errorSelector?: string;
+  captureEveryMs?: number;
+  capture?: () => Promise<void>; // Called at the start, every `captureEveryMs` and at the end
+}
+
+export const DEFAULT_STOP_BUTTON_SELECTOR = [
+  'button[aria-label*="stop" i]',
+  'button[title*="stop" i]',
+  '[data-testid*="stop" i]',
+].join(", ");
+
+// MUI error alerts only: a bare [role="alert"] also matches live regions and toasts
+export const DEFAULT_ERROR_SELECTOR = [
+  ".MuiAlert-standardError",
+  ".MuiAlert-filledError",
+  ".MuiAlert-outlinedError",
+  '[role="alert"].MuiAlert-colorError',
+].join(", ");
+
+const TRACKED_RESOURCE_TYPES = new Set(["fetch", "xhr"]);
+
+export async function waitForCompletion(
+  page: Page,
+  {
+    timeoutMs = 600_000,
+    pollMs = 1_000,
+    quietMs = 15_000,
+    stopButtonSelector = DEFAULT_STOP_BUTTON_SELECTOR,
+    errorSelector = DEFAULT_ERROR_SELECTOR,
+    captureEveryMs,
+    capture,
+  }: CompletionOptions = {}
+): Promise<CompletionResult> {
+  const start = Date.now();
+
+  // Track in-flight API requests by when they started; streamed responses
+  // stay pending until done
+  const pending = new Map<unknown, number>();
+  let lastNetworkActivity = start;
+  const onRequest = (request: { resourceType(): string }) => {
+    if (TRACKED_RESOURCE_TYPES.has(request.resourceType())) {
+      pending.set(request, Date.now());
+      lastNetworkActivity = Date.now();
+    }
+  };
+  const onRequestDone = (request: unknown) => {
+    if (pending.delete(request)) {
+      lastNetworkActivity = Date.now();
+    }
+  };
+  page.on("request", onRequest);
+  page.on("requestfinished", onRequestDone);
+  page.on("requestfailed", onRequestDone);
+  try {
+    const finish = async (
+      outcome: CompletionOutcome,
+      reason: string,
+      errorText?: string
+    ): Promise<CompletionResult> => {
+      const end = Date.now();
+      console.log(`Agent run ${outcome} after ${end - start}ms: ${reason}`);
+      if (capture) {
+        await capture();
+      }
+      return {
+        outcome,
+        reason,
+        startedAt: new Date(start).toISOString(),
+        completedAt: new Date(end).toISOString(),
+        durationMs: end - start,
+        errorText,
+      };
+    };
+
+    let stopButtonSeen = false;
+    let responseStarted = false;
+    let lastCapture = start;
+    if (capture) {
+      await capture();
+    }
+
+    while (Date.now() - start < timeoutMs) {
+      const state = await page
+        .evaluate(
+          ({ stopButtonSelector, errorSelector }) => {
+            const win = window as typeof window & { __athenaLastMutationAt?: number };
+            if (win.__athenaLastMutationAt === undefined) {
+              // (Re)installed after every navigation since the window is new
+              win.__athenaLastMutationAt = 0;
+              new MutationObserver(() => {
+                win.__athenaLastMutationAt = Date.now();
+              }).observe(document.body, {
+                childList: true,
+                subtree: true,
+                characterData: true,
+              });
+            }
+            const isVisible = (el: Element) => {
+              const rect = el.getBoundingClientRect();
+              return rect.width > 0 && rect.height > 0;
+            };
+            const errorBanner = Array.from(document.querySelectorAll(errorSelector)).find(
+              (el) => isVisible(el) && Boolean(el.textContent?.trim())
+            );
+            return {
+              msSinceMutation: win.__athenaLastMutationAt
+                ? Date.now() - win.__athenaLastMutationAt
+                : undefined,
+              stopButtonVisible: Array.from(
+                document.querySelectorAll(stopButtonSelector)
+              ).some(isVisible),
+              errorText: errorBanner?.textContent?.trim(),
+            };
+          },
+          { stopButtonSelector, errorSelector }
+        )
+        .catch(() => undefined); // The page can be mid-navigation
+
+      if (state) {
+        if (state.errorText !== undefined) {
+          return finish("error", "error banner shown", state.errorText);
+        }
+        if (state.stopButtonVisible) {
+          stopButtonSeen = true;
+        } else if (stopButtonSeen) {
+          return finish("completed", "stop button disappeared");
+        }
+        if (state.msSinceMutation !== undefined) {
+          responseStarted = true;
+        }
+        const now = Date.now();
+        const msSinceNetwork = now - lastNetworkActivity;
+        const busy = [...pending.values()].some((startedAt) => now - startedAt < quietMs);
+        if (
+          responseStarted &&
+          !state.stopButtonVisible &&
+          !busy &&
+          (state.msSinceMutation ?? 0) >= quietMs &&
+          msSinceNetwork >= quietMs
+        ) {
+          return finish("completed", `no DOM or network activity for ${quietMs}ms`);
+        }
+      }
+
+      if (capture && captureEveryMs && Date.now() - lastCapture >= captureEveryMs) {
+        lastCapture = Date.now();
+        await capture();
+      }
+      await page.waitForTimeout(pollMs);
+    }
+
+    return finish("timeout", `still running after ${timeoutMs}ms`);
+  } finally {
+    page.off("request", onRequest);
+    page.off("requestfinished", onRequestDone);
+    page.off("requestfailed", onRequestDone);
+  }
+}
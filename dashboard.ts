@@ -0,0 +1,219 @@
+import path from "path";
+import { flakiness, ManifestCase, RunManifest } from "./history.js";
+
+/**
+ * A static HTML dashboard of the run history (see history.ts): one file with
+ * no external assets, readable straight from disk or from a CI artifact.
+ *
+ * - the run list, newest first, filterable by command, status, profile and
+ *   text
+ * - per run: every case with a timeline of its steps and a gallery of its
+ *   screenshots
+ * - flakiness per scenario: pass rate and status flips over recent runs
+ *
+ * Screenshots are linked relative to the dashboard file, so keep it next to
+ * the `runs/` directory it was rendered from (the default `runs/index.html`).
+ */
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+  return ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : `${(ms / 60000).toFixed(1)}min`;
+}
+
+const STYLE = `
+body { font: 14px/1.4 system-ui, sans-serif; margin: 2rem; color: #222; }
+h1, h2 { font-weight: 600; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+th, td { text-align: left; padding: .35rem .6rem; border-bottom: 1px solid #e4e4e4; vertical-align: top; }
+tr.run { cursor: pointer; }
+tr.run:hover { background: #f6f8fa; }
+tr.details > td { background: #fafafa; }
+.badge { padding: .1rem .45rem; border-radius: .6rem; font-size: 12px; color: #fff; }
+.passed { background: #2da44e; } .failed { background: #cf222e; } .skipped { background: #8c959f; }
+.flaky { background: #bf8700; }
+.filters { display: flex; gap: .6rem; margin-bottom: 1rem; }
+.timeline { display: flex; height: 14px; margin: .3rem 0 .6rem; border-radius: 3px; overflow: hidden; }
+.timeline span { min-width: 2px; border-right: 1px solid #fff; }
+.gallery { display: flex; flex-wrap: wrap; gap: .5rem; }
+.gallery img { height: 120px; border: 1px solid #ccc; }
+.error { color: #cf222e; white-space: pre-wrap; }
+.muted { color: #777; }
+`;
+
+const SCRIPT = `
+const filters = document.querySelectorAll(".filters select, .filters input");
+function applyFilters() {
+  const values = Object.fromEntries([...filters].map((f) => [f.name, f.value.toLowerCase()]));
+  document.querySelectorAll("tr.run").forEach((row) => {
+    const visible =
+      (!values.command || row.dataset.command === values.command) &&
+      (!values.status || row.dataset.status === values.status) &&
+      (!values.profile || row.dataset.profile === values.profile) &&
+      (!values.text || row.dataset.text.includes(values.text));
+    row.hidden = !visible;
+    if (!visible) row.nextElementSibling.hidden = true;
+  });
+}
+filters.forEach((f) => f.addEventListener("input", applyFilters));
+document.querySelectorAll("tr.run").forEach((row) =>
+  row.addEventListener("click", () => (row.nextElementSibling.hidden = !row.nextElementSibling.hidden))
+);
+`;
+
+function select(name: string, values: string[]): string {
+  return `<select name="${name}"><option value="">All ${name}s</option>${[...new Set(values)]
+    .sort()
+    .map((value) => `<option value="${escapeHtml(value.toLowerCase())}">${escapeHtml(value)}</option>`)
+    .join("")}</select>`;
+}
+
+function renderCase(result: ManifestCase, linkTo: (file: string) => string): string {
+  const total = result.steps.reduce((sum, step) => sum + step.durationMs, 0) || 1;
+  const timeline = result.steps.length
+    ? `<div class="timeline">${result.steps
+        .map(
+          (step) =>
+            `<span class="${step.status}" style="flex-grow: ${step.durationMs / total}" title="${escapeHtml(
+              `${step.name} (${step.type}): ${step.status}, ${formatDuration(step.durationMs)}${
+                step.error ? `\n${step.error}` : ""
+              }`
+            )}"></span>`
+        )
+        .join("")}</div>`
+    : "";
+  const metrics = result.metrics?.prompts.length
+    ? `<div class="muted">${result.metrics.prompts
+        .map(
+          (prompt) =>
+            `First token ${prompt.timeToFirstTokenMs ?? "?"}ms, completion ${prompt.timeToCompletionMs ?? "?"}ms`
+        )
+        .join("; ")}</div>`
+    : "";
+  const gallery = result.screenshots.length
+    ? `<div class="gallery">${result.screenshots
+        .map(
+          (file) =>
+            `<a href="${linkTo(file)}" target="_blank"><img loading="lazy" src="${linkTo(
+              file
+            )}" title="${escapeHtml(path.basename(file))}"></a>`
+        )
+        .join("")}</div>`
+    : "";
+  return `<h3><span class="badge ${result.status}">${result.status}</span> ${escapeHtml(
+    result.name
+  )} <span class="muted">${formatDuration(result.durationMs)}</span></h3>${
+    result.error ? `<div class="error">${escapeHtml(result.error)}</div>` : ""
+  }${
+    result.failureBundle
+      ? `<div>Failure bundle: <a href="${linkTo(result.failureBundle)}">${escapeHtml(
+          result.failureBundle
+        )}</a></div>`
+      : ""
+  }${timeline}${metrics}${gallery}`;
+}
+
+/**
+ * Render the dashboard
+ * @param outFile - Where the HTML will be written; artifact links are
+ *   relative to it
+ */
+export function renderDashboard(manifests: RunManifest[], outFile: string): string {
+  const linkTo = (file: string) =>
+    encodeURI(
+      path
+        .relative(path.dirname(path.resolve(outFile)), path.resolve(file))
+        .split(path.sep)
+        .join("/")
+    );
+  const runs = [...manifests].reverse();
+  const passed = manifests.filter((manifest) => manifest.status === "passed").length;
+
+  const rows = runs
+    .map((manifest) => {
+      const failedCases = manifest.cases.filter((c) => c.status === "failed").length;
+      const text = [manifest.runId, manifest.name, ...manifest.cases.map((c) => c.name)]
+        .join(" ")
+        .toLowerCase();
+      return `<tr class="run" data-command="${manifest.command}" data-status="${manifest.status}" data-profile="${escapeHtml(
+        manifest.profile.name.toLowerCase()
+      )}" data-text="${escapeHtml(text)}">
+<td>${escapeHtml(manifest.startedAt.replace("T", " ").slice(0, 19))}</td>
+<td>${manifest.command}</td>
+<td>${escapeHtml(manifest.name)}</td>
+<td>${escapeHtml(manifest.profile.name)}</td>
+<td><span class="badge ${manifest.status}">${manifest.status}</span></td>
+<td>${manifest.cases.length - failedCases}/${manifest.cases.length}</td>
+<td>${formatDuration(manifest.durationMs)}</td>
+</tr>
+<tr class="details" hidden><td colspan="7">
+<div class="muted">Run ${escapeHtml(manifest.runId)} against ${escapeHtml(manifest.profile.baseUrl)} (${escapeHtml(
+        manifest.profile.modelName
+      )})${manifest.inputs.length ? `, inputs: ${escapeHtml(manifest.inputs.join(", "))}` : ""}</div>
+${Object.entries(manifest.artifacts)
+  .flatMap(([name, value]) => (Array.isArray(value) ? value : [value]).map((file) => [name, file]))
+  .map(([name, file]) => `<a href="${linkTo(file)}">${escapeHtml(name)}</a>`)
+  .join(" · ")}
+${manifest.error ? `<div class="error">${escapeHtml(manifest.error)}</div>` : ""}
+${manifest.cases.map((result) => renderCase(result, linkTo)).join("\n")}
+</td></tr>`;
+    })
+    .join("\n");
+
+  const flaky = flakiness(manifests)
+    .map(
+      (row) => `<tr><td>${escapeHtml(row.name)}</td><td>${row.runs}</td><td>${Math.round(
+        row.passRate * 100
+      )}%</td><td>${row.flips}</td><td><span class="badge ${row.lastStatus}">${row.lastStatus}</span></td><td>${
+        row.flaky ? '<span class="badge flaky">flaky</span>' : ""
+      }</td></tr>`
+    )
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Athena test runs</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>Athena test runs</h1>
+<p class="muted">${manifests.length} runs, ${passed} passed, ${manifests.length - passed} failed. Generated ${escapeHtml(
+    new Date().toISOString()
+  )}.</p>
+<h2>Runs</h2>
+<div class="filters">
+${select("command", manifests.map((m) => m.command))}
+<select name="status"><option value="">All statuses</option><option value="passed">passed</option><option value="failed">failed</option></select>
+${select("profile", manifests.map((m) => m.profile.name))}
+<input name="text" type="search" placeholder="Search runs and scenarios">
+</div>
+<table>
+<thead><tr><th>Started</th><th>Command</th><th>Name</th><th>Profile</th><th>Status</th><th>Cases</th><th>Duration</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<h2>Flakiness</h2>
+<table>
+<thead><tr><th>Scenario</th><th>Runs</th><th>Pass rate</th><th>Flips</th><th>Last</th><th></th></tr></thead>
+<tbody>
+${flaky}
+</tbody>
+</table>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,58 @@
+/**
+ * Errors that tell apart *why* a run failed. The CLI maps them to distinct
+ * process exit codes so CI can separate a broken login from a misbehaving
+ * agent or a flaky browser session.
+ */
+
+export type FailureKind = "usage" | "login" | "agent" | "infra" | "test";
+
+export const EXIT_CODES: Record<FailureKind, number> = {
+  test: 1, // A step or assertion failed
+  usage: 2, // Bad command line, config or input file
+  login: 3, // Could not log in to Athena
+  agent: 4, // The agent errored or never finished
+  infra: 5, // Browser, session or network trouble
+};
+
+export class AthenaTestError extends Error {
+  readonly kind: FailureKind = "test";
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export class UsageError extends AthenaTestError {
+  readonly kind = "usage";
+}
+
+export class LoginError extends AthenaTestError {
+  readonly kind = "login";
+}
+
+export class AgentError extends AthenaTestError {
+  readonly kind = "agent";
+}
+
+export class InfraError extends AthenaTestError {
+  readonly kind = "infra";
+}
+
+/**
+ * What kind of failure an error represents; anything that is not one of
+ * our own errors counts as a plain test failure
+ */
+export function failureKind(error: unknown): FailureKind {
+  return error instanceof AthenaTestError ? error.kind : "test";
+}
+
+const SEVERITY: FailureKind[] = ["usage", "login", "infra", "agent", "test"];
+
+/**
+ * The most fundamental of several failures, e.g. a login failure outranks
+ * the assertion failures that follow from it
+ */
+export function worstFailure(kinds: FailureKind[]): FailureKind | undefined {
+  return SEVERITY.find((kind) => kinds.includes(kind));
+}
@@ -0,0 +1,281 @@
+import {
+  AvailableModel,
+  ChatMessage,
+  ClientOptions,
+  CreateChatCompletionOptions,
+  LLMClient,
+  LLMResponse,
+} from "@browserbasehq/stagehand";
+import { z } from "zod";
+
+/**
+ * A model client for Stagehand that answers `act`, `observe` and `extract`
+ * without a model, so flows can run offline against the mock Athena app in
+ * mock-athena.ts.
+ *
+ * It picks elements by matching the words of the instruction against the
+ * elements Stagehand lists (tag, attributes and text), fills `%variable%`
+ * values into the inputs they name (username → the email input), and fills
+ * extraction schemas with the text of the page. That is enough for the
+ * simple, literal instructions the flows use; it is no model and will pick
+ * wrong elements for vague ones.
+ */
+
+interface Candidate {
+  id: number;
+  text: string; // Tag, attributes and text of a DOM element, or role and name
+  interactive: boolean;
+}
+
+const STOP_WORDS = new Set([
+  "the", "and", "click", "find", "with", "that", "this", "one", "just", "says", "then",
+  "into", "from", "for", "its", "you", "your", "form", "fill",
+]);
+
+// Which inputs a variable goes into, by variable name
+const VARIABLE_HINTS: Record<string, string[]> = {
+  username: ["email", "user", "login"],
+  email: ["email"],
+  password: ["password"],
+};
+
+function messageText(message?: ChatMessage): string {
+  if (!message) {
+    return "";
+  }
+  return typeof message.content === "string"
+    ? message.content
+    : message.content.map((part) => ("text" in part ? part.text : "")).join("\n");
+}
+
+/**
+ * The text of a `# Heading` section of Stagehand's act prompt
+ */
+function section(prompt: string, heading: string): string {
+  const match = prompt.match(new RegExp(`# ${heading}\\n([\\s\\S]*?)(?=\\n# |$)`));
+  return match?.[1].trim() ?? "";
+}
+
+function parseCandidates(elements: string): Candidate[] {
+  return elements.split("\n").flatMap((line): Candidate[] => {
+    // "12:<button aria-label="settings">⚙</button>" from the DOM processor
+    const dom = line.match(/^(\d+):(.*)$/);
+    if (dom) {
+      return [
+        {
+          id: Number(dom[1]),
+          text: dom[2].toLowerCase(),
+          interactive: /^<(a|button|input|textarea|select)\b|role="|contenteditable/.test(dom[2]),
+        },
+      ];
+    }
+    // "  [12] button: Spaces" from the accessibility tree
+    const a11y = line.match(/^\s*\[(\d+)\]\s+([\w-]+)(?::\s*(.*))?$/);
+    if (a11y) {
+      return [
+        {
+          id: Number(a11y[1]),
+          text: `${a11y[2]} ${a11y[3] ?? ""}`.toLowerCase(),
+          interactive: /^(button|link|textbox|menuitem|combobox|checkbox|tab)$/.test(a11y[2]),
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+function words(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(
+    (word) => word.length >= 3 && !STOP_WORDS.has(word)
+  );
+}
+
+/**
+ * The element that matches the most words of the instruction; names the
+ * instruction spells out (capitalized or quoted) count extra when they are
+ * the element's whole text
+ */
+function bestMatch(instruction: string, candidates: Candidate[]): Candidate | undefined {
+  const terms = words(instruction);
+  const names = [
+    ...(instruction.match(/'([^']+)'|"([^"]+)"/g) ?? []).map((quoted) => quoted.slice(1, -1)),
+    ...(instruction.match(/\b[A-Z][a-zA-Z]+\b/g) ?? []),
+  ].map((name) => name.toLowerCase());
+
+  let best: Candidate | undefined;
+  let bestScore = 0;
+  for (const candidate of candidates) {
+    const ownText = candidate.text.replace(/<[^>]*>/g, "").replace(/^[\w-]+ /, "").trim();
+    let score = terms.filter((term) => candidate.text.includes(term)).length;
+    if (names.some((name) => ownText === name || candidate.text.endsWith(` ${name}`))) {
+      score += 3;
+    }
+    if (score > 0 && candidate.interactive) {
+      score += 0.5;
+    }
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function toolCallResponse(name: string, args: object): LLMResponse {
+  return {
+    id: `fake-${Date.now()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: "fake",
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: `call-${Date.now()}`,
+              type: "function",
+              function: { name, arguments: JSON.stringify(args) },
+            },
+          ],
+        },
+        finish_reason: "tool_calls",
+      },
+    ],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  };
+}
+
+/**
+ * Pick the next step of an `act` goal: fill the variables that have not
+ * been filled yet, then click what the goal names
+ */
+function nextAction(prompt: string): LLMResponse {
+  const goal = section(prompt, "My Goal");
+  const steps = section(prompt, "Steps You've Taken So Far");
+  const candidates = parseCandidates(section(prompt, "Current Active Dom Elements"));
+  const variables = (section(prompt, "Variables").match(/<\|[A-Z0-9_]+\|>/g) ?? []).filter(
+    (placeholder) => !steps.includes(placeholder)
+  );
+  const clickTarget = goal.match(/\b(?:click|press|select|open)\b(.*)$/i)?.[1];
+
+  if (variables.length > 0) {
+    const placeholder = variables[0];
+    const name = placeholder.slice(2, -2).toLowerCase();
+    const input = bestMatch(
+      (VARIABLE_HINTS[name] ?? [name]).join(" "),
+      candidates.filter((candidate) => /^<(input|textarea)\b|textbox/.test(candidate.text))
+    );
+    if (input) {
+      return toolCallResponse("doAction", {
+        method: "fill",
+        element: input.id,
+        args: [placeholder],
+        step: `filled ${placeholder} into element ${input.id}`,
+        why: `the goal needs ${name} filled in`,
+        completed: variables.length === 1 && !clickTarget,
+      });
+    }
+  }
+
+  const typed = goal.match(/\btype\s+['"](.+?)['"]\s+into\b(.*)$/i);
+  const target = bestMatch(typed?.[2] ?? clickTarget ?? goal, candidates);
+  if (!target) {
+    return toolCallResponse("skipSection", { reason: "no element matches the goal" });
+  }
+  return toolCallResponse("doAction", {
+    method: typed ? "fill" : "click",
+    element: target.id,
+    args: typed ? [typed[1]] : [],
+    step: `${typed ? "filled" : "clicked"} element ${target.id}`,
+    why: "it is the element the goal names",
+    completed: true,
+  });
+}
+
+/**
+ * A value of the shape of a zod schema: strings get the page text, lists
+ * stay empty. Goes by type name, since the schema may come from another copy
+ * of zod than ours.
+ */
+function fillSchema(schema: z.ZodTypeAny, text: string): unknown {
+  const def = schema._def;
+  switch (def.typeName as z.ZodFirstPartyTypeKind) {
+    case z.ZodFirstPartyTypeKind.ZodObject:
+      return Object.fromEntries(
+        Object.entries((schema as z.AnyZodObject).shape as z.ZodRawShape).map(
+          ([key, field]) => [key, fillSchema(field, text)]
+        )
+      );
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return text;
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return 0;
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return false;
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return [];
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return def.values[0];
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return def.value;
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return fillSchema(def.innerType, text);
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return fillSchema(def.schema, text);
+    default:
+      return undefined;
+  }
+}
+
+export class FakeLLMClient extends LLMClient {
+  type = "fake";
+  hasVision = false;
+  clientOptions: ClientOptions = {};
+  private lastExtraction: unknown;
+
+  constructor(modelName: AvailableModel = "gpt-4o") {
+    super(modelName);
+  }
+
+  async createChatCompletion<T = LLMResponse>({
+    options,
+  }: CreateChatCompletionOptions): Promise<T> {
+    const prompt = messageText(options.messages[options.messages.length - 1]);
+    if (options.tools?.length) {
+      return nextAction(prompt) as T;
+    }
+
+    switch (options.response_model?.name) {
+      case "Observation": {
+        const instruction = prompt.match(/^instruction: (.*)$/m)?.[1] ?? "";
+        const elements = prompt.replace(/^[\s\S]*?\n(DOM|Accessibility Tree): /, "");
+        const match = bestMatch(instruction, parseCandidates(elements));
+        return {
+          elements: match
+            ? [{ elementId: match.id, description: match.text, method: "click", arguments: [] }]
+            : [],
+        } as T;
+      }
+      case "Verification":
+        return { completed: true } as T;
+      case "Extraction": {
+        const pageText = prompt.replace(/^[\s\S]*?(DOM|Text):\s*/i, "").trim();
+        this.lastExtraction = fillSchema(options.response_model.schema as z.ZodTypeAny, pageText);
+        return this.lastExtraction as T;
+      }
+      case "RefinedExtraction":
+        return this.lastExtraction as T;
+      case "Metadata":
+        return { progress: "Extracted the page", completed: true } as T;
+      default:
+        throw new Error(
+          `FakeLLMClient cannot answer ${options.response_model?.name ?? "free-form"} requests`
+        );
+    }
+  }
+}
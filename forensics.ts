@@ -0,0 +1,263 @@
+import { Page } from "@browserbasehq/stagehand";
+import fs from "fs";
+import path from "path";
+import { redactValue, writeRedactedFile } from "./secrets.js";
+
+/**
+ * Failure forensics: everything needed to debug a failed run after the
+ * browser is gone, written to its own timestamped directory so failures of
+ * earlier and parallel runs are kept:
+ *
+ * ```
+ * failures/<timestamp>-<label>/
+ *   screenshot.png         Full page at the time of failure
+ *   dom.html               DOM snapshot
+ *   console.json           Console messages and uncaught page errors
+ *   failed-requests.json   Requests that failed or returned 4xx/5xx
+ *   stagehand.log          The last Stagehand log lines
+ *   failure.json           Error, failed step, URL and time
+ * ```
+ *
+ * Console messages and requests are only recorded once `attachForensics()`
+ * has been called on the page, so do that right after `stagehand.init()`.
+ * Text files go through the secret redaction in secrets.ts.
+ */
+
+export const DEFAULT_FAILURES_DIR = "failures";
+
+export interface ConsoleEntry {
+  type: string;
+  text: string;
+  location?: string;
+  timestamp: string;
+}
+
+export interface FailedRequest {
+  method: string;
+  url: string;
+  status?: number;
+  failure?: string;
+  timestamp: string;
+}
+
+/**
+ * Ring buffer of formatted Stagehand log lines
+ */
+export class LogBuffer {
+  private lines: string[] = [];
+
+  constructor(private size = 200) {}
+
+  push(line: string) {
+    this.lines.push(line);
+    if (this.lines.length > this.size) {
+      this.lines.splice(0, this.lines.length - this.size);
+    }
+  }
+
+  tail(count = this.size): string[] {
+    return this.lines.slice(-count);
+  }
+}
+
+/**
+ * Stagehand log lines of the default logger in stagehand.config.ts. Workers
+ * with their own logger pass their own buffer to `attachForensics()`.
+ */
+export const stagehandLog = new LogBuffer();
+
+interface PageRecorder {
+  console: ConsoleEntry[];
+  failedRequests: FailedRequest[];
+  log: LogBuffer;
+}
+
+const recorders = new WeakMap<Page, PageRecorder>();
+
+function pushLimited<T>(list: T[], entry: T, limit: number) {
+  list.push(entry);
+  if (list.length > limit) {
+    list.shift();
+  }
+}
+
+/**
+ * Start recording console messages, page errors and failed requests
+ * @param log - Where the Stagehand log lines of this page are buffered
+ * @param limit - How many console messages and requests to keep
+ */
+export function attachForensics(
+  page: Page,
+  { log = stagehandLog, limit = 500 }: { log?: LogBuffer; limit?: number } = {}
+) {
+  if (recorders.has(page)) {
+    return;
+  }
+  const recorder: PageRecorder = { console: [], failedRequests: [], log };
+  recorders.set(page, recorder);
+
+  page.on("console", (message) => {
+    const { url, lineNumber } = message.location();
+    pushLimited(
+      recorder.console,
+      {
+        type: message.type(),
+        text: message.text(),
+        location: url ? `${url}:${lineNumber}` : undefined,
+        timestamp: new Date().toISOString(),
+      },
+      limit
+    );
+  });
+  page.on("pageerror", (error) => {
+    pushLimited(
+      recorder.console,
+      { type: "pageerror", text: error.stack || error.message, timestamp: new Date().toISOString() },
+      limit
+    );
+  });
+  page.on("requestfailed", (request) => {
+    pushLimited(
+      recorder.failedRequests,
+      {
+        method: request.method(),
+        url: request.url(),
+        failure: request.failure()?.errorText,
+        timestamp: new Date().toISOString(),
+      },
+      limit
+    );
+  });
+  page.on("response", (response) => {
+    if (response.status() >= 400) {
+      pushLimited(
+        recorder.failedRequests,
+        {
+          method: response.request().method(),
+          url: response.url(),
+          status: response.status(),
+          timestamp: new Date().toISOString(),
+        },
+        limit
+      );
+    }
+  });
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60);
+}
+
+/**
+ * Write a failure bundle for the current state of the page. Never throws:
+ * whatever can be captured is written, the rest is noted in failure.json.
+ * @param label - Names the bundle directory, e.g. the scenario name
+ * @param step - The step that failed, if any
+ * @param logLines - How many Stagehand log lines to include
+ * @returns The bundle directory, or undefined if it could not be created
+ */
+export async function captureFailureBundle(
+  page: Page,
+  {
+    error,
+    label = "failure",
+    step,
+    failuresDir = DEFAULT_FAILURES_DIR,
+    logLines = 100,
+  }: {
+    error: unknown;
+    label?: string;
+    step?: string;
+    failuresDir?: string;
+    logLines?: number;
+  }
+): Promise<string | undefined> {
+  const timestamp = new Date().toISOString();
+  const bundleDir = path.join(
+    failuresDir,
+    `${timestamp.replace(/[:.]/g, "-")}-${slugify(label) || "failure"}`
+  );
+  try {
+    fs.mkdirSync(bundleDir, { recursive: true });
+  } catch (mkdirError) {
+    console.error(`Could not create the failure bundle ${bundleDir}: ${(mkdirError as Error).message}`);
+    return undefined;
+  }
+  const captureErrors: string[] = [];
+  const attempt = async (what: string, capture: () => unknown) => {
+    try {
+      await capture();
+    } catch (captureError) {
+      captureErrors.push(`${what}: ${(captureError as Error).message}`);
+    }
+  };
+
+  await attempt("screenshot", () =>
+    page.screenshot({
+      path: path.join(bundleDir, "screenshot.png"),
+      fullPage: true,
+      timeout: 30000,
+    })
+  );
+  await attempt("dom", async () =>
+    writeRedactedFile(path.join(bundleDir, "dom.html"), await page.content())
+  );
+
+  const recorder = recorders.get(page);
+  if (!recorder) {
+    captureErrors.push("console and network: attachForensics() was not called for this page");
+  }
+  await attempt("console", () =>
+    writeRedactedFile(
+      path.join(bundleDir, "console.json"),
+      JSON.stringify(recorder?.console ?? [], null, 2)
+    )
+  );
+  await attempt("failed requests", () =>
+    writeRedactedFile(
+      path.join(bundleDir, "failed-requests.json"),
+      JSON.stringify(recorder?.failedRequests ?? [], null, 2)
+    )
+  );
+  await attempt("stagehand log", () =>
+    writeRedactedFile(
+      path.join(bundleDir, "stagehand.log"),
+      (recorder?.log ?? stagehandLog).tail(logLines).join("\n") + "\n"
+    )
+  );
+
+  let url: string | undefined;
+  try {
+    url = page.url();
+  } catch {
+    // The page is already closed
+  }
+  try {
+    writeRedactedFile(
+      path.join(bundleDir, "failure.json"),
+      JSON.stringify(
+        redactValue({
+          timestamp,
+          label,
+          step,
+          url,
+          error: error instanceof Error ? error.message : String(error),
+          errorName: error instanceof Error ? error.name : undefined,
+          stack: error instanceof Error ? error.stack : undefined,
+          captureErrors,
+        }),
+        null,
+        2
+      )
+    );
+  } catch (writeError) {
+    console.error(`Could not complete the failure bundle ${bundleDir}: ${(writeError as Error).message}`);
+  }
+
+  console.error(`Failure bundle written to ${bundleDir}`);
+  return bundleDir;
+}
@@ -0,0 +1,258 @@
+import fs from "fs";
+import path from "path";
+import type { BatchResult } from "./batch.js";
+import { FailureKind, failureKind } from "./errors.js";
+import type { RunMetrics } from "./metrics.js";
+import type { Profile } from "./profiles.js";
+import type { SuiteResult } from "./runner.js";
+import { writeRedactedFile } from "./secrets.js";
+
+/**
+ * Run history: every `run`, `prompt`, `batch` and `workflow` writes a
+ * manifest of what it ran and what came out of it next to its artifacts,
+ *
+ * ```
+ * runs/<runId>/manifest.json
+ * ```
+ *
+ * so the `runs/` directory is an index of past runs that `athena-test
+ * dashboard` renders (see dashboard.ts). Paths in a manifest are relative to
+ * the working directory the run started in.
+ */
+
+export const DEFAULT_HISTORY_DIR = "runs";
+
+export type RunCommand = "run" | "prompt" | "batch" | "workflow";
+
+export interface ManifestStep {
+  name: string;
+  type: string;
+  status: "passed" | "failed" | "skipped";
+  startedAt: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ManifestCase {
+  name: string; // Scenario name, or agent and prompt
+  status: "passed" | "failed";
+  startedAt: string;
+  durationMs: number;
+  error?: string;
+  failureKind?: FailureKind;
+  steps: ManifestStep[];
+  screenshots: string[]; // Oldest first
+  failureBundle?: string;
+  metrics?: RunMetrics;
+}
+
+export interface RunManifest {
+  runId: string;
+  command: RunCommand;
+  name: string; // Suite name, prompt or prompts file
+  status: "passed" | "failed";
+  failureKind?: FailureKind;
+  error?: string; // Why a run failed before it could record its cases
+  startedAt: string;
+  durationMs: number;
+  profile: Pick<Profile, "name" | "baseUrl" | "env" | "modelName">;
+  options: Record<string, unknown>; // The command's options after merging config, env and flags
+  inputs: string[]; // Scenario files, prompts file
+  cases: ManifestCase[];
+  artifacts: Record<string, string | string[]>; // Reports, logs, recordings
+}
+
+export function manifestPath(runId: string, historyDir = DEFAULT_HISTORY_DIR): string {
+  return path.join(historyDir, runId, "manifest.json");
+}
+
+/**
+ * Write a run's manifest into the history
+ * @returns The manifest's path
+ */
+export function writeManifest(manifest: RunManifest, historyDir = DEFAULT_HISTORY_DIR): string {
+  const file = manifestPath(manifest.runId, historyDir);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  writeRedactedFile(file, JSON.stringify(manifest, null, 2));
+  return file;
+}
+
+/**
+ * Read every manifest in the history, oldest run first. Unreadable
+ * manifests are skipped.
+ */
+export function loadManifests(historyDir = DEFAULT_HISTORY_DIR): RunManifest[] {
+  if (!fs.existsSync(historyDir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(historyDir)
+    .map((runId) => manifestPath(runId, historyDir))
+    .filter((file) => fs.existsSync(file))
+    .flatMap((file): RunManifest[] => {
+      try {
+        return [JSON.parse(fs.readFileSync(file, "utf8"))];
+      } catch {
+        console.log(`Skipping unreadable manifest ${file}`);
+        return [];
+      }
+    })
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+/**
+ * The most recent run of a command, if any
+ */
+export function latestManifest(
+  command: RunCommand,
+  historyDir = DEFAULT_HISTORY_DIR
+): RunManifest | undefined {
+  return loadManifests(historyDir)
+    .filter((manifest) => manifest.command === command)
+    .at(-1);
+}
+
+/**
+ * The PNG files in a directory, oldest first
+ */
+export function listScreenshots(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".png"))
+    .map((file) => path.join(dir, file))
+    .sort((a, b) => fs.statSync(a).mtimeMs - fs.statSync(b).mtimeMs);
+}
+
+/**
+ * The cases of a suite run: steps, and the screenshots taken by screenshot
+ * steps, visual checks and failure bundles
+ */
+export function casesFromSuite(suite: SuiteResult): ManifestCase[] {
+  return suite.cases.map((result) => ({
+    name: result.name,
+    status: result.status,
+    startedAt: result.startedAt,
+    durationMs: result.durationMs,
+    error: result.error,
+    failureKind: result.failureKind,
+    steps: result.steps.map(({ name, type, status, startedAt, durationMs, error }) => ({
+      name,
+      type,
+      status,
+      startedAt,
+      durationMs,
+      error,
+    })),
+    screenshots: [
+      ...result.steps.flatMap((step) => [
+        ...(step.screenshot ? [step.screenshot] : []),
+        ...(step.visual?.actual ? [step.visual.actual] : []),
+        ...(step.visual?.diff ? [step.visual.diff] : []),
+      ]),
+      ...(result.failureBundle ? [path.join(result.failureBundle, "screenshot.png")] : []),
+    ].filter((file) => fs.existsSync(file)),
+    failureBundle: result.failureBundle,
+    metrics: result.metrics,
+  }));
+}
+
+/**
+ * The case of a `prompt` or `workflow` run from what it left in its directory: the
+ * screenshots, failure bundles and metrics
+ */
+export function casesFromPromptRun(
+  runDir: string,
+  { name, startedAt, error }: { name: string; startedAt: number; error?: unknown }
+): ManifestCase[] {
+  const failuresDir = path.join(runDir, "failures");
+  const bundles = fs.existsSync(failuresDir)
+    ? fs.readdirSync(failuresDir).map((bundle) => path.join(failuresDir, bundle))
+    : [];
+  const metricsFile = path.join(runDir, "analysis", "metrics.json");
+  return [
+    {
+      name,
+      status: error === undefined ? "passed" : "failed",
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+      failureKind: error === undefined ? undefined : failureKind(error),
+      steps: [],
+      screenshots: [
+        ...listScreenshots(path.join(runDir, "screenshots")),
+        ...bundles
+          .map((bundle) => path.join(bundle, "screenshot.png"))
+          .filter((file) => fs.existsSync(file)),
+      ],
+      failureBundle: bundles.at(-1),
+      metrics: fs.existsSync(metricsFile)
+        ? JSON.parse(fs.readFileSync(metricsFile, "utf8"))
+        : undefined,
+    },
+  ];
+}
+
+/**
+ * The cases of a batch run, one per prompt
+ */
+export function casesFromBatch(results: BatchResult[]): ManifestCase[] {
+  return results.map((result) => ({
+    name: `${result.agent}: ${result.prompt}`,
+    status: result.outcome === "completed" && result.violations.length === 0 ? "passed" : "failed",
+    startedAt: new Date(
+      Date.parse(result.completedAt ?? new Date().toISOString()) - result.durationMs
+    ).toISOString(),
+    durationMs: result.durationMs,
+    error: result.error ?? (result.violations.join("; ") || undefined),
+    failureKind: result.failureKind ?? (result.violations.length ? "test" : undefined),
+    steps: [],
+    screenshots: [
+      ...(result.screenshotPath ? [result.screenshotPath] : []),
+      ...(result.failureBundle ? [path.join(result.failureBundle, "screenshot.png")] : []),
+    ].filter((file) => fs.existsSync(file)),
+    failureBundle: result.failureBundle,
+  }));
+}
+
+export interface FlakinessRow {
+  name: string;
+  runs: number;
+  passed: number;
+  failed: number;
+  passRate: number; // 0 to 1
+  flips: number; // Times the status changed from one run to the next
+  flaky: boolean; // Both passed and failed within the window
+  lastStatus: "passed" | "failed";
+}
+
+/**
+ * Pass rates and status flips of every scenario (or prompt) over its last
+ * `window` runs
+ */
+export function flakiness(manifests: RunManifest[], window = 20): FlakinessRow[] {
+  const statuses = new Map<string, ("passed" | "failed")[]>();
+  for (const manifest of manifests) {
+    for (const result of manifest.cases) {
+      statuses.set(result.name, [...(statuses.get(result.name) ?? []), result.status]);
+    }
+  }
+  return [...statuses.entries()]
+    .map(([name, all]) => {
+      const recent = all.slice(-window);
+      const passed = recent.filter((status) => status === "passed").length;
+      return {
+        name,
+        runs: recent.length,
+        passed,
+        failed: recent.length - passed,
+        passRate: passed / recent.length,
+        flips: recent.filter((status, i) => i > 0 && status !== recent[i - 1]).length,
+        flaky: passed > 0 && passed < recent.length,
+        lastStatus: recent[recent.length - 1],
+      };
+    })
+    .sort((a, b) => b.flips - a.flips || a.passRate - b.passRate || a.name.localeCompare(b.name));
+}
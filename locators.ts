@@ -0,0 +1,295 @@
+import { ObserveResult, Page } from "@browserbasehq/stagehand";
+import type { Locator } from "@playwright/test";
+import chalk from "chalk";
+import { observeWithRetry, RETRY_POLICIES } from "./retry.js";
+
+/**
+ * Self-healing locators for the Athena elements the flows wait on.
+ *
+ * Each logical element has an ordered list of strategies. The first one is
+ * the primary locator; the others are tried when it has not matched within
+ * a grace period, ending with a natural-language `page.observe()` as a last
+ * resort. Fallbacks are scoped (a heading name, a region of the page) so
+ * they do not match a different page, like the login form, instead. Which strategy
+ * found the element is recorded per page, and a warning is printed the first
+ * time an element is only found by a fallback, so UI drift shows up in the
+ * logs and reports before every flow breaks.
+ *
+ * Put a test id first once the app exposes one for an element.
+ */
+
+export type LocatorStrategy =
+  | { by: "testId"; value: string }
+  | {
+      by: "role";
+      value: Parameters<Page["getByRole"]>[0];
+      name?: string | RegExp;
+      within?: string; // CSS selector of the region to search in
+      notWithin?: string; // CSS selector of regions that do not count
+    }
+  | { by: "css"; value: string }
+  | { by: "observe"; value: string } /* Instruction for page.observe() */;
+
+export interface ElementSpec {
+  description: string;
+  strategies: LocatorStrategy[];
+}
+
+export const ELEMENTS = {
+  emailInput: {
+    description: "login email input",
+    strategies: [
+      { by: "css", value: 'input[autocomplete="email"]' },
+      { by: "role", value: "textbox", name: /email/i },
+      { by: "css", value: 'input[type="email"], input[name="email"]' },
+      { by: "observe", value: "the email input field of the login form" },
+    ],
+  },
+  landingHeader: {
+    description: "landing page header",
+    strategies: [
+      { by: "css", value: "h1.MuiBox-root" },
+      {
+        by: "role",
+        value: "heading",
+        name: /^(welcome|spaces|library|home)\b/i,
+        notWithin: "form",
+      },
+      { by: "observe", value: "the main heading of the page shown after logging in" },
+    ],
+  },
+  chatInput: {
+    description: "Spaces chat input",
+    strategies: [
+      { by: "css", value: "div.tiptap.ProseMirror" },
+      { by: "css", value: '.ProseMirror[contenteditable="true"]' },
+      { by: "role", value: "textbox", within: "main", notWithin: "form" },
+      { by: "observe", value: "the chat message input field at the bottom of the page" },
+    ],
+  },
+  agentDropdown: {
+    description: "Spaces agent dropdown",
+    strategies: [
+      { by: "css", value: 'button[aria-haspopup][aria-label*="agent" i]' },
+      { by: "role", value: "button", name: /agent/i, notWithin: "form" },
+      {
+        by: "observe",
+        value: "the agent dropdown at the top center of the page, left of the settings icon",
+      },
+    ],
+  },
+} satisfies Record<string, ElementSpec>;
+
+export type ElementName = keyof typeof ELEMENTS;
+
+export const ELEMENT_NAMES = Object.keys(ELEMENTS) as [ElementName, ...ElementName[]];
+
+export interface LocatorRecord {
+  element: string;
+  strategy: string; // The strategy that found the element last
+  primaryBroken: boolean;
+  lookups: number;
+}
+
+const records = new WeakMap<Page, Map<string, LocatorRecord>>();
+
+export function describeStrategy(strategy: LocatorStrategy): string {
+  switch (strategy.by) {
+    case "role":
+      return `${strategy.within ? `${strategy.within} >> ` : ""}role=${strategy.value}${
+        strategy.name ? `[name=${strategy.name}]` : ""
+      }${strategy.notWithin ? ` outside ${strategy.notWithin}` : ""}`;
+    case "observe":
+      return `observe("${strategy.value}")`;
+    default:
+      return `${strategy.by}=${strategy.value}`;
+  }
+}
+
+function toLocator(page: Page, strategy: LocatorStrategy): Locator | undefined {
+  switch (strategy.by) {
+    case "testId":
+      return page.getByTestId(strategy.value).first();
+    case "role":
+      return (strategy.within ? page.locator(strategy.within) : page).getByRole(strategy.value, {
+        name: strategy.name,
+      });
+    case "css":
+      return page.locator(strategy.value).first();
+    case "observe":
+      return undefined;
+  }
+}
+
+/**
+ * The first visible element a Playwright strategy matches, skipping those
+ * inside its `notWithin` regions
+ */
+async function visibleMatch(page: Page, strategy: LocatorStrategy): Promise<Locator | undefined> {
+  const locator = toLocator(page, strategy);
+  if (!locator) {
+    return undefined;
+  }
+  const candidates = strategy.by === "role" ? await locator.all() : [locator];
+  for (const candidate of candidates) {
+    if (!(await candidate.isVisible().catch(() => false))) {
+      continue;
+    }
+    if (
+      strategy.by === "role" &&
+      strategy.notWithin &&
+      (await candidate
+        .evaluate((element, selector) => element.closest(selector) !== null, strategy.notWithin)
+        .catch(() => true))
+    ) {
+      continue;
+    }
+    return candidate;
+  }
+  return undefined;
+}
+
+function record(page: Page, name: string, spec: ElementSpec, index: number) {
+  const pageRecords = records.get(page) ?? new Map<string, LocatorRecord>();
+  records.set(page, pageRecords);
+  const previous = pageRecords.get(name);
+  const primaryBroken = index > 0;
+  if (primaryBroken && !previous?.primaryBroken) {
+    console.warn(
+      chalk.yellow(
+        `UI drift: the ${spec.description} no longer matches its primary locator ${describeStrategy(
+          spec.strategies[0]
+        )}; found it with ${describeStrategy(spec.strategies[index])}`
+      )
+    );
+  }
+  pageRecords.set(name, {
+    element: name,
+    strategy: describeStrategy(spec.strategies[index]),
+    primaryBroken: primaryBroken || Boolean(previous?.primaryBroken),
+    lookups: (previous?.lookups ?? 0) + 1,
+  });
+}
+
+/**
+ * The first CSS or test id strategy of an element as a plain selector, for
+ * waits that need one (e.g. for an element to be attached or detached)
+ */
+export function primarySelector(name: ElementName): string {
+  const spec: ElementSpec = ELEMENTS[name];
+  for (const strategy of spec.strategies) {
+    if (strategy.by === "css") {
+      return strategy.value;
+    }
+    if (strategy.by === "testId") {
+      return `[data-testid="${strategy.value}"]`;
+    }
+  }
+  throw new Error(`The ${spec.description} has no CSS or test id locator`);
+}
+
+// Longest part of a lookup's timeout kept for the `observe` fallback
+const MAX_OBSERVE_MS = 30000;
+
+/**
+ * Wait for an element to be visible, trying its strategies in order
+ * @param timeoutMs - How long the whole lookup may take; with an `observe`
+ *   fallback, half of it (at most 30s) is kept for `observe`
+ * @param primaryGraceMs - How long only the primary strategy is polled, so
+ *   a page that is still loading is not taken for UI drift
+ * @returns A locator for the element
+ */
+export async function findElement(
+  page: Page,
+  name: ElementName,
+  { timeoutMs = 30000, primaryGraceMs = 5000 }: { timeoutMs?: number; primaryGraceMs?: number } = {}
+): Promise<Locator> {
+  const spec: ElementSpec = ELEMENTS[name];
+  const start = Date.now();
+  const deadline = start + timeoutMs;
+  const observeMs = spec.strategies.some((strategy) => strategy.by === "observe")
+    ? Math.min(timeoutMs / 2, MAX_OBSERVE_MS)
+    : 0;
+  const pollMs = timeoutMs - observeMs;
+  do {
+    const strategies =
+      Date.now() - start < Math.min(primaryGraceMs, pollMs / 2)
+        ? spec.strategies.slice(0, 1)
+        : spec.strategies;
+    for (const [index, strategy] of strategies.entries()) {
+      const locator = await visibleMatch(page, strategy);
+      if (locator) {
+        record(page, name, spec, index);
+        return locator;
+      }
+    }
+    await page.waitForTimeout(500);
+  } while (Date.now() < start + pollMs);
+
+  for (const [index, strategy] of spec.strategies.entries()) {
+    const remainingMs = Math.round(deadline - Date.now());
+    if (strategy.by !== "observe" || remainingMs <= 0) {
+      continue;
+    }
+    let result: ObserveResult;
+    try {
+      [result] = await observeWithRetry(page, strategy.value, {
+        ...RETRY_POLICIES.none,
+        timeoutMs: remainingMs,
+      });
+    } catch (error) {
+      console.warn(
+        chalk.yellow(
+          `UI drift: no locator matches the ${spec.description}, and observe did not find it either: ${
+            error instanceof Error ? error.message : error
+          }`
+        )
+      );
+      continue;
+    }
+    const locator = page.locator(result.selector).first();
+    if (locator && (await locator.isVisible().catch(() => false))) {
+      record(page, name, spec, index);
+      return locator;
+    }
+  }
+
+  throw new Error(
+    `Could not find the ${spec.description} within ${timeoutMs}ms (tried ${spec.strategies
+      .map(describeStrategy)
+      .join(", ")})`
+  );
+}
+
+/**
+ * Wait until no strategy of an element matches a visible element
+ */
+export async function waitForElementHidden(
+  page: Page,
+  name: ElementName,
+  { timeoutMs = 30000 }: { timeoutMs?: number } = {}
+) {
+  const spec: ElementSpec = ELEMENTS[name];
+  const deadline = Date.now() + timeoutMs;
+  do {
+    const visible = await Promise.all(
+      spec.strategies.map(async (strategy) => (await visibleMatch(page, strategy)) !== undefined)
+    );
+    if (!visible.includes(true)) {
+      return;
+    }
+    await page.waitForTimeout(500);
+  } while (Date.now() < deadline);
+  throw new Error(`The ${spec.description} is still visible after ${timeoutMs}ms`);
+}
+
+/**
+ * Which strategy found each element looked up on a page so far
+ */
+export function locatorReport(page: Page): LocatorRecord[] {
+  return [...(records.get(page)?.values() ?? [])];
+}
+
+export function resetLocatorReport(page: Page) {
+  records.delete(page);
+}
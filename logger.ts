@@ -0,0 +1,194 @@
+import type { LogLine } from "@browserbasehq/stagehand";
+import { AsyncLocalStorage } from "async_hooks";
+import boxen from "boxen";
+import chalk from "chalk";
+import fs from "fs";
+import path from "path";
+import util from "util";
+import { redactValue } from "./secrets.js";
+
+/**
+ * Structured logging.
+ *
+ * Every message, whether logged through `logger`, written with `console.*`
+ * (once `captureConsole()` is installed) or emitted by Stagehand, becomes a
+ * log entry carrying the run ID, scenario, step and worker it belongs to.
+ * Those come from the context set with `withLogContext()`, which follows
+ * async calls, so entries of concurrent workers stay apart.
+ *
+ * Entries are rendered to the console as readable lines ("pretty", the
+ * default) or as JSON lines ("json"), and can also be appended as JSON
+ * lines to a file, e.g. `runs/<runId>/log.jsonl`:
+ *
+ * ```json
+ * {"timestamp":"...","level":"info","message":"Step 3. sendPrompt passed","runId":"...","scenario":"Athena any prompt","step":"3. sendPrompt","durationMs":5120}
+ * ```
+ *
+ * Everything is redacted (see secrets.ts) before it is written.
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export const LOG_FORMATS = ["pretty", "json"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+export interface LogContext {
+  runId?: string;
+  scenario?: string;
+  step?: string;
+  worker?: number;
+}
+
+export interface LogEntry extends LogContext {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  category?: string; // e.g. "stagehand:action" for Stagehand's log lines
+  durationMs?: number;
+  [field: string]: unknown;
+}
+
+const settings: { format: LogFormat; level: LogLevel; files: string[] } = {
+  format: (process.env.ATHENA_LOG_FORMAT as LogFormat) || "pretty",
+  level: (process.env.ATHENA_LOG_LEVEL as LogLevel) || "info",
+  files: [],
+};
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+let baseContext: LogContext = {};
+
+// Console methods as they were before captureConsole() replaced them
+const stdout = console.log.bind(console);
+const stderr = console.error.bind(console);
+
+export function configureLogging({
+  format,
+  level,
+  runId,
+}: {
+  format?: LogFormat;
+  level?: LogLevel;
+  runId?: string; // Attached to every entry of this process
+}) {
+  settings.format = format ?? settings.format;
+  settings.level = level ?? settings.level;
+  if (runId) {
+    baseContext = { ...baseContext, runId };
+  }
+}
+
+/**
+ * Also append every entry as a JSON line to a file
+ */
+export function addLogFile(filePath: string) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  settings.files.push(filePath);
+}
+
+/**
+ * Run `fn` with extra context attached to everything it logs
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...(contextStorage.getStore() ?? {}), ...context }, fn);
+}
+
+function workerPrefix({ worker, scenario }: LogContext): string {
+  return worker ? chalk.cyan(`[w${worker}:${scenario}]`) + " " : "";
+}
+
+function renderPretty(entry: LogEntry): string {
+  if (typeof entry.box === "string") {
+    return boxen(entry.message, { padding: 1, margin: 3, title: entry.box });
+  }
+  let text = entry.message;
+  if (entry.category) {
+    text = `${entry.timestamp}::[${entry.category}] ${text}`;
+  }
+  const auxiliary = entry.auxiliary as Record<string, string> | undefined;
+  if (auxiliary?.error) {
+    text += `\n ${auxiliary.error}\n ${auxiliary.trace ?? ""}`;
+  }
+  if (entry.durationMs !== undefined) {
+    text += chalk.dim(` (${entry.durationMs}ms)`);
+  }
+  if (entry.level === "warn") {
+    text = chalk.yellow(text);
+  } else if (entry.level === "error") {
+    text = chalk.red(text);
+  } else if (entry.level === "debug") {
+    text = chalk.dim(text);
+  }
+  return workerPrefix(entry) + text;
+}
+
+export function log(level: LogLevel, message: string, fields: Partial<LogEntry> = {}) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) {
+    return;
+  }
+  const entry: LogEntry = redactValue({
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    ...baseContext,
+    ...(contextStorage.getStore() ?? {}),
+    ...fields,
+  });
+
+  const json = JSON.stringify(entry);
+  for (const file of settings.files) {
+    try {
+      fs.appendFileSync(file, json + "\n", "utf8");
+    } catch {
+      // Never fail a run because its log file is unwritable
+    }
+  }
+  const write = level === "warn" || level === "error" ? stderr : stdout;
+  write(settings.format === "json" ? json : renderPretty(entry));
+}
+
+export const logger = {
+  debug: (message: string, fields?: Partial<LogEntry>) => log("debug", message, fields),
+  info: (message: string, fields?: Partial<LogEntry>) => log("info", message, fields),
+  warn: (message: string, fields?: Partial<LogEntry>) => log("warn", message, fields),
+  error: (message: string, fields?: Partial<LogEntry>) => log("error", message, fields),
+};
+
+/**
+ * Log one of Stagehand's `LogLine`s. Its auxiliary data is kept in the JSON
+ * output; the pretty renderer only shows errors from it.
+ */
+export function logStagehandLine(line: LogLine) {
+  const auxiliary = Object.fromEntries(
+    Object.entries(line.auxiliary ?? {}).map(([key, { value }]) => [key, value])
+  );
+  const isError = line.category === "error" || Boolean(auxiliary.error);
+  log(isError ? "error" : line.level === 2 ? "debug" : "info", line.message, {
+    category: `stagehand:${line.category ?? "log"}`,
+    ...(Object.keys(auxiliary).length ? { auxiliary } : {}),
+  });
+}
+
+let consoleCaptured = false;
+
+/**
+ * Route `console.*` through the logger, so ad-hoc messages get the same
+ * context, format, filtering and redaction
+ */
+export function captureConsole() {
+  if (consoleCaptured) {
+    return;
+  }
+  consoleCaptured = true;
+  const levels: Record<"debug" | "log" | "info" | "warn" | "error", LogLevel> = {
+    debug: "debug",
+    log: "info",
+    info: "info",
+    warn: "warn",
+    error: "error",
+  };
+  for (const [method, level] of Object.entries(levels)) {
+    console[method as keyof typeof levels] = (...args: unknown[]) =>
+      log(level, util.format(...args));
+  }
+}
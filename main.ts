@@ -2,33 +2,48 @@ import { Page, BrowserContext, Stagehand } from "@browserbasehq/stagehand";
 import dotenv from "dotenv";
 import fs from "fs";
 import path from "path";
+import { login, openSpaces, selectAgent } from "./athena.js";
+import { captureFailureBundle } from "./forensics.js";
+import { getProfile, Profile, profileLoginOptions } from "./profiles.js";
+import { actWithRetry } from "./retry.js";
+import { screenshotWithRetry } from "./utils.js";
 
 dotenv.config();
 
+export interface WorkflowOptions {
+  numScreenshots: number;
+  intervalMs: number; // Time between screenshots
+  outputDir?: string; // Gets the screenshots/ and analysis/ directories, default the working directory
+}
+
+export const DEFAULT_WORKFLOW_OPTIONS: WorkflowOptions = {
+  numScreenshots: 10,
+  intervalMs: 60000,
+};
+
+/**
+ * Open the first suggested workflow in Spaces and screenshot it at an
+ * interval. Run it with `athena-test workflow` (or `npm start`).
+ */
 export async function main({
   page,
   context,
   stagehand,
+  profile = getProfile(),
+  options = {},
 }: {
   page: Page; // Playwright Page with act, extract, and observe methods
   context: BrowserContext; // Playwright BrowserContext
   stagehand: Stagehand; // Stagehand instance
+  profile?: Profile; // Athena deployment to run against
+  options?: Partial<WorkflowOptions>;
 }) {
+  const {
+    numScreenshots,
+    intervalMs: screenshotIntervalMs,
+    outputDir: baseDir = process.cwd(),
+  } = { ...DEFAULT_WORKFLOW_OPTIONS, ...options };
   try {
-    // Parse command line arguments
-    const args: Record<string, string> = {};
-    process.argv.slice(2).forEach(arg => {
-      if (arg.startsWith('--')) {
-        const [key, value] = arg.substring(2).split('=');
-        args[key] = value;
-      }
-    });
-    
-    // Default to 10 screenshots if not specified
-    const numScreenshots = parseInt(args.num_screenshots || '10', 10);
-    // Default to 60 seconds (1 minute) between screenshots if not specified
-    const screenshotIntervalMs = parseInt(args.interval_ms || '60000', 10);
-    
     console.log(`Configuration: Taking ${numScreenshots} screenshots with ${screenshotIntervalMs}ms interval`);
     
     // Set a higher viewport resolution
@@ -38,86 +53,25 @@ export async function main({
     });
     
     // Create screenshots directory if it doesn't exist
-    const screenshotsDir = path.join(process.cwd(), 'screenshots');
+    const screenshotsDir = path.join(baseDir, 'screenshots');
     if (!fs.existsSync(screenshotsDir)) {
-      fs.mkdirSync(screenshotsDir);
+      fs.mkdirSync(screenshotsDir, { recursive: true });
     }
     
     // Create output directory for analysis (will be used by Windmill script)
-    const outputDir = path.join(process.cwd(), 'analysis');
+    const outputDir = path.join(baseDir, 'analysis');
     if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir);
-    }
-
-    // Navigate to Athena with retry logic
-    console.log("Navigating to Athena...");
-    let retries = 3;
-    while (retries > 0) {
-      try {
-        await page.goto("https://app.athenaintel.com/", { timeout: 60000 });
-        console.log("Successfully navigated to Athena");
-        break; // Break out of the loop if successful
-      } catch (error) {
-        retries--;
-        if (retries === 0) {
-          console.error("Failed to navigate to Athena after multiple attempts");
-          throw error;
-        }
-        console.log(`Navigation failed, retrying... (${retries} attempts left)`);
-        await page.waitForTimeout(5000); // Wait 5 seconds before retrying
-      }
-    }
-
-    // Wait for the email input field to be visible
-    await page.waitForSelector('input[autocomplete="email"]', { state: 'visible' });
-
-    // Fill in the form with username and password from environment variables
-    await page.act({
-      action: "fill in the form with %username% and %password% and click the log in button",
-      variables: {
-        username: process.env.ATHENA_USERNAME!,
-        password: process.env.ATHENA_PASSWORD!,
-      },
-    });
-
-    // Wait for successful login and handle potential timeout
-    try {
-      await page.waitForSelector('h1.MuiBox-root', { state: 'visible', timeout: 10000 });
-    } catch (error) {
-      console.log("Element not found within 10 seconds. Reloading the page...");
-      await page.reload(); // Reload the page
-      await page.waitForSelector('h1.MuiBox-root', { state: 'visible' }); // Retry after reload
+      fs.mkdirSync(outputDir, { recursive: true });
     }
 
-    console.log("Successfully logged in to Athena");
-    
-    // Wait for the page to fully load after login
-    await page.waitForLoadState('networkidle');
-    
-    // Click on Spaces
-    console.log("Clicking on Spaces...");
-    await page.act({
-      action: "Click Spaces",
-    });
-    
-    // Wait for navigation and content to load
-    await page.waitForLoadState('networkidle');
-    await page.waitForTimeout(3000); // Additional wait to ensure content is loaded
-    
-    // Click the agent menu
-    console.log("Switching the agent...");
-    await page.act({
-      action: "Find a dropdown on the top center of the page (with settings icon to the right) and click on the dropdown.",
-    });
+    // Same profile as the Stagehand config, so the saved session is reused
+    await login(page, profileLoginOptions(profile));
+    await openSpaces(page);
+    await selectAgent(page, "Athena");
 
-    // Click the agent menu
-    console.log("Clicking on Athena agent... ");
-    await page.act({
-      action: "Find the Athena agent (the one that just says Athena) and click on it",
-    });
     // Click the first suggested workflow below Documentation
     console.log("Clicking the first suggested workflow below Documentation...");
-    await page.act({
+    await actWithRetry(page, {
       action: "Click the first suggested workflow below Documentation in the center space",
     });
     
@@ -131,31 +85,12 @@ export async function main({
     const screenshotPaths: string[] = [];
     
     for (let i = 0; i < numScreenshots; i++) {
-      // Take a screenshot with retry logic
       const timestamp = new Date().toISOString().replace(/:/g, '-');
       const screenshotPath = path.join(screenshotsDir, `screenshot-${i+1}-${timestamp}.png`);
       
       console.log(`Taking screenshot ${i+1}/${numScreenshots}...`);
-      let screenshotRetries = 3;
-      while (screenshotRetries > 0) {
-        try {
-          await page.screenshot({
-            path: screenshotPath,
-            fullPage: true,
-            timeout: 60000 // Increase timeout to 60 seconds
-          });
-          console.log(`Screenshot ${i+1}/${numScreenshots} taken: ${screenshotPath}`);
-          break; // Break out of the loop if successful
-        } catch (error) {
-          screenshotRetries--;
-          if (screenshotRetries === 0) {
-            console.error(`Failed to take screenshot after multiple attempts`);
-            throw error;
-          }
-          console.log(`Screenshot failed, retrying... (${screenshotRetries} attempts left)`);
-          await page.waitForTimeout(5000); // Wait 5 seconds before retrying
-        }
-      }
+      await screenshotWithRetry(page, screenshotPath);
+      console.log(`Screenshot ${i+1}/${numScreenshots} taken: ${screenshotPath}`);
       
       screenshotPaths.push(screenshotPath);
       
@@ -179,10 +114,11 @@ export async function main({
     
   } catch (error) {
     console.error('Test failed:', error);
-    // Take a screenshot on failure
-    await page.screenshot({
-      path: 'error-screenshot.png',
-      fullPage: true
+    // Save a screenshot, the DOM, console and network errors for debugging
+    await captureFailureBundle(page, {
+      error,
+      label: 'workflow',
+      failuresDir: path.join(baseDir, 'failures'),
     });
     throw error;
   }
@@ -14,7 +14,13 @@ import { Page, BrowserContext, Stagehand } from "@browserbasehq/stagehand";
 import { z } from "zod";
 import chalk from "chalk";
 import dotenv from "dotenv";
-import { actWithCache, drawObserveOverlay, clearOverlays } from "./utils.js";
+import { actWithCache } from "./cache.js";
+import { drawObserveOverlay, clearOverlays } from "./utils.js";
+import { openLibraryItem } from "./athena.js";
+import { getProfile, profileCredentials } from "./profiles.js";
+import { waitForCompletion } from "./completion.js";
+import { captureFailureBundle } from "./forensics.js";
+import { actWithRetry } from "./retry.js";
 
 dotenv.config();
 
@@ -65,20 +71,24 @@ export async function main({
     await page.waitForLoadState('domcontentloaded');
     await page.waitForTimeout(5000); // Increased wait time to ensure React is hydrated
 
+    // Staging credentials come from ATHENA_STAGING_USERNAME / ATHENA_STAGING_PASSWORD
+    // and are passed as variables so they never reach the model or the logs
+    const { username, password } = profileCredentials(getProfile("staging"));
+
     // Fill in the username
-    await page.act(
-      "Type 'anton+staging+internal+bugbug@athenaintelligence.ai' into the email input field"
-    );
+    await actWithRetry(page, {
+      action: "Type %username% into the email input field",
+      variables: { username },
+    });
 
     // Fill in the password
-    await page.act(
-      "Type '1Qwerty1Qwerty1' into the password input field"
-    );
+    await actWithRetry(page, {
+      action: "Type %password% into the password input field",
+      variables: { password },
+    });
 
     // Click the login button
-    await page.act(
-      "Click the login button"
-    );
+    await actWithRetry(page, "Click the login button");
 
     // Wait for navigation and page load after login with increased timeouts
     await Promise.all([
@@ -87,31 +97,13 @@ export async function main({
     ]);
     await page.waitForTimeout(5000); // Increased wait for React hydration
 
-    // Click on Library
-    await page.act(
-      "Click the 'Library' link"
-    );
-
-    // Wait for navigation after clicking Library
-    await page.waitForLoadState("networkidle");
-    await page.waitForTimeout(3000);
-
-    // Scroll to the bottom of the page
-    await page.evaluate(() => {
-      window.scrollTo(0, document.body.scrollHeight);
-    });
-    await page.waitForTimeout(2000); // Increased wait for scroll to complete
-
-    // Click on "One Task for Each Agent"
-    await page.act(
-      "Click the link containing 'One Task for Each Agent'"
-    );
+    await openLibraryItem(page, "One Task for Each Agent");
 
     // Press Enter
     await page.keyboard.press('Enter');
 
-    // Wait for 5 minutes (300000 milliseconds)
-    await page.waitForTimeout(300000);
+    // Wait up to 5 minutes for the agents to finish
+    await waitForCompletion(page, { timeoutMs: 300000 });
 
     // Take a screenshot
     await page.screenshot({
@@ -120,11 +112,8 @@ export async function main({
     });
   } catch (error) {
     console.error('Test failed:', error);
-    // Take a screenshot on failure
-    await page.screenshot({
-      path: 'error-screenshot.png',
-      fullPage: true
-    });
+    // Save a screenshot, the DOM, console and network errors for debugging
+    await captureFailureBundle(page, { error, label: 'library-item' });
     throw error;
   }
 }
\ No newline at end of file
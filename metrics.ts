@@ -0,0 +1,467 @@
+import { Page } from "@browserbasehq/stagehand";
+import fs from "fs";
+import path from "path";
+import type { CompletionResult } from "./completion.js";
+import type { SuiteResult } from "./runner.js";
+
+/**
+ * Performance metrics of a run, so Athena's responsiveness can be tracked
+ * and latency regressions spotted across runs:
+ *
+ * - time to log in
+ * - per prompt: time to first token (the first answer text rendering in the
+ *   chat), time to completion and the requests the prompt caused
+ * - per page load: navigation timing and Web Vitals (FCP, LCP, CLS)
+ * - request counts of the whole run
+ *
+ * A `MetricsRecorder` collects them for one page; scenario runs store them in
+ * their result (and so in the suite report), `prompt` and `batch` in a
+ * `metrics.json`. `compareRuns()` takes both from many runs and compares the
+ * latest run of every scenario and prompt against the median of the runs
+ * before it, which `athena-test trend` prints.
+ */
+
+export interface NetworkCounts {
+  requests: number;
+  api: number; // fetch, XHR, EventSource and WebSocket requests
+  failed: number; // Failed, or answered with a 4xx/5xx status
+  bytes: number; // Sum of Content-Length headers, streamed responses excluded
+}
+
+export interface PageLoadMetrics {
+  url: string;
+  at: string;
+  ttfbMs?: number;
+  domContentLoadedMs?: number;
+  loadMs?: number;
+  firstContentfulPaintMs?: number;
+  largestContentfulPaintMs?: number;
+  cumulativeLayoutShift?: number;
+}
+
+export interface PromptMetrics {
+  id?: string; // Of a batch prompt
+  prompt: string;
+  sentAt: string;
+  timeToFirstTokenMs?: number;
+  timeToCompletionMs?: number;
+  outcome?: CompletionResult["outcome"];
+  network: NetworkCounts; // Requests from sending the prompt to completion
+}
+
+export interface RunMetrics {
+  loginMs?: number;
+  pageLoads: PageLoadMetrics[];
+  prompts: PromptMetrics[];
+  network: NetworkCounts;
+}
+
+export const API_RESOURCE_TYPES = new Set(["fetch", "xhr", "eventsource", "websocket"]);
+
+const emptyCounts = (): NetworkCounts => ({ requests: 0, api: 0, failed: 0, bytes: 0 });
+
+function difference(after: NetworkCounts, before: NetworkCounts): NetworkCounts {
+  return {
+    requests: after.requests - before.requests,
+    api: after.api - before.api,
+    failed: after.failed - before.failed,
+    bytes: after.bytes - before.bytes,
+  };
+}
+
+/**
+ * Collects the metrics of one page. Network requests are counted from
+ * construction until `finish()`.
+ */
+export class MetricsRecorder {
+  readonly metrics: RunMetrics = { pageLoads: [], prompts: [], network: emptyCounts() };
+  private current?: { prompt: PromptMetrics; sentAt: number; network: NetworkCounts };
+  private readonly listeners: [string, (arg: never) => void][];
+  private readonly documents = new Set<number>(); // `performance.timeOrigin` of recorded loads
+
+  constructor(private readonly page: Page) {
+    const counts = this.metrics.network;
+    this.listeners = [
+      [
+        "request",
+        (request: { resourceType(): string }) => {
+          counts.requests++;
+          if (API_RESOURCE_TYPES.has(request.resourceType())) {
+            counts.api++;
+          }
+        },
+      ],
+      ["requestfailed", () => counts.failed++],
+      [
+        "response",
+        (response: { status(): number; headers(): Record<string, string> }) => {
+          if (response.status() >= 400) {
+            counts.failed++;
+          }
+          counts.bytes += Number(response.headers()["content-length"]) || 0;
+        },
+      ],
+    ];
+    for (const [event, listener] of this.listeners) {
+      page.on(event as "request", listener as () => void);
+    }
+  }
+
+  recordLogin(durationMs: number) {
+    this.metrics.loginMs = durationMs;
+  }
+
+  /**
+   * Record the navigation timing and Web Vitals of the page's current
+   * document, unless already recorded (client-side navigation keeps the
+   * document)
+   */
+  async recordPageLoad() {
+    const url = this.page.url();
+    if (!/^https?:/.test(url)) {
+      return;
+    }
+    const timing = await this.page
+      .evaluate(async () => {
+        const [navigation] = performance.getEntriesByType(
+          "navigation"
+        ) as PerformanceNavigationTiming[];
+        const paint = performance
+          .getEntriesByType("paint")
+          .find((entry) => entry.name === "first-contentful-paint");
+        // LCP and layout shifts are only available to buffered observers
+        const observed = (type: string) =>
+          new Promise<PerformanceEntry[]>((resolve) => {
+            try {
+              const observer = new PerformanceObserver((list) => {
+                observer.disconnect();
+                resolve(list.getEntries());
+              });
+              observer.observe({ type, buffered: true });
+              setTimeout(() => {
+                observer.disconnect();
+                resolve([]);
+              }, 200);
+            } catch {
+              resolve([]); // Not supported by this browser
+            }
+          });
+        const lcp = (await observed("largest-contentful-paint")).at(-1);
+        const shifts = (await observed("layout-shift")) as (PerformanceEntry & {
+          value: number;
+          hadRecentInput: boolean;
+        })[];
+        const round = (value?: number) =>
+          value === undefined || value <= 0 ? undefined : Math.round(value);
+        return {
+          timeOrigin: performance.timeOrigin,
+          ttfbMs: round(navigation?.responseStart),
+          domContentLoadedMs: round(navigation?.domContentLoadedEventEnd),
+          loadMs: round(navigation?.loadEventEnd),
+          firstContentfulPaintMs: round(paint?.startTime),
+          largestContentfulPaintMs: round(lcp?.startTime),
+          cumulativeLayoutShift: navigation
+            ? Number(
+                shifts
+                  .filter((shift) => !shift.hadRecentInput)
+                  .reduce((sum, shift) => sum + shift.value, 0)
+                  .toFixed(4)
+              )
+            : undefined,
+        };
+      })
+      .catch(() => undefined); // The page can be mid-navigation
+    if (timing && !this.documents.has(timing.timeOrigin)) {
+      const { timeOrigin, ...load } = timing;
+      this.documents.add(timeOrigin);
+      this.metrics.pageLoads.push({ url, at: new Date().toISOString(), ...load });
+    }
+  }
+
+  /**
+   * Call right before sending a prompt. Watches the chat for the first text
+   * of the answer: added text outside the chat input and buttons that is not
+   * part of the prompt itself (which the chat echoes).
+   */
+  async promptSent(prompt: string, id?: string) {
+    const metrics: PromptMetrics = {
+      ...(id === undefined ? {} : { id }),
+      prompt,
+      sentAt: new Date().toISOString(),
+      network: emptyCounts(),
+    };
+    this.metrics.prompts.push(metrics);
+    this.current = { prompt: metrics, sentAt: Date.now(), network: { ...this.metrics.network } };
+
+    await this.page
+      .evaluate((promptText) => {
+        const win = window as typeof window & {
+          __athenaFirstToken?: { sentAt: number; firstAt?: number; observer: MutationObserver };
+        };
+        win.__athenaFirstToken?.observer.disconnect();
+        const isAnswerText = (node: Node) => {
+          const element = node instanceof Element ? node : node.parentElement;
+          const text = node.textContent?.trim();
+          return (
+            !!text &&
+            !element?.closest('[contenteditable="true"], button') &&
+            !promptText.includes(text)
+          );
+        };
+        const state = {
+          sentAt: Date.now(),
+          firstAt: undefined as number | undefined,
+          observer: new MutationObserver((records) => {
+            const found = records.some((record) =>
+              record.type === "characterData"
+                ? isAnswerText(record.target)
+                : Array.from(record.addedNodes).some(isAnswerText)
+            );
+            if (found) {
+              state.firstAt = Date.now();
+              state.observer.disconnect();
+            }
+          }),
+        };
+        state.observer.observe(document.body, {
+          childList: true,
+          subtree: true,
+          characterData: true,
+        });
+        win.__athenaFirstToken = state;
+      }, prompt)
+      .catch(() => undefined);
+  }
+
+  /**
+   * Call once the agent is done with the prompt sent last
+   */
+  async promptCompleted(completion: CompletionResult) {
+    const current = this.current;
+    if (!current) {
+      return;
+    }
+    this.current = undefined;
+    const { prompt } = current;
+    prompt.outcome = completion.outcome;
+    prompt.timeToCompletionMs = Date.parse(completion.completedAt) - current.sentAt;
+    prompt.network = difference(this.metrics.network, current.network);
+    // Both times come from the page's clock, which may differ from ours
+    prompt.timeToFirstTokenMs = await this.page
+      .evaluate(() => {
+        const state = (
+          window as typeof window & { __athenaFirstToken?: { sentAt: number; firstAt?: number } }
+        ).__athenaFirstToken;
+        return state?.firstAt === undefined ? undefined : state.firstAt - state.sentAt;
+      })
+      .catch(() => undefined);
+    console.log(
+      `Prompt metrics: first token ${prompt.timeToFirstTokenMs ?? "?"}ms, completion ${
+        prompt.timeToCompletionMs
+      }ms, ${prompt.network.api} API requests`
+    );
+  }
+
+  /**
+   * Stop counting requests
+   * @returns The collected metrics
+   */
+  finish(): RunMetrics {
+    for (const [event, listener] of this.listeners) {
+      this.page.off(event as "request", listener as () => void);
+    }
+    return this.metrics;
+  }
+}
+
+/** The metrics compared across runs, per scenario */
+export const TREND_METRICS = {
+  loginMs: "Login",
+  timeToFirstTokenMs: "Time to first token",
+  timeToCompletionMs: "Time to completion",
+  largestContentfulPaintMs: "Largest contentful paint",
+  apiRequests: "API requests",
+} as const;
+
+export type TrendMetric = keyof typeof TREND_METRICS;
+
+export interface TrendRow {
+  scenario: string; // Scenario name, or "prompt <id>"
+  metric: TrendMetric;
+  latest: number;
+  baseline?: number; // Median of the previous runs
+  changePct?: number;
+  regressed: boolean;
+  history: number[]; // Oldest first, latest last
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * One number per trend metric for a scenario run: medians over its prompts
+ * and page loads
+ */
+export function summarizeMetrics(metrics: RunMetrics): Partial<Record<TrendMetric, number>> {
+  const values = (list: (number | undefined)[]) =>
+    median(list.filter((value): value is number => value !== undefined));
+  const summary: Partial<Record<TrendMetric, number | undefined>> = {
+    loginMs: metrics.loginMs,
+    timeToFirstTokenMs: values(metrics.prompts.map((p) => p.timeToFirstTokenMs)),
+    timeToCompletionMs: values(metrics.prompts.map((p) => p.timeToCompletionMs)),
+    largestContentfulPaintMs: values(metrics.pageLoads.map((p) => p.largestContentfulPaintMs)),
+    apiRequests: metrics.network.api,
+  };
+  return Object.fromEntries(
+    Object.entries(summary).filter(([, value]) => value !== undefined)
+  ) as Partial<Record<TrendMetric, number>>;
+}
+
+/**
+ * Parse the JSON files under a directory, two levels deep, e.g.
+ * `runs/<runId>/analysis/*.json`; unreadable files are left out
+ */
+function readJsonFiles(dir: string, accept: (file: string) => boolean): unknown[] {
+  const found: unknown[] = [];
+  const walk = (current: string, depth: number) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      const file = path.join(current, entry.name);
+      if (entry.isDirectory() && depth < 2) {
+        walk(file, depth + 1);
+      } else if (entry.isFile() && accept(file)) {
+        try {
+          found.push(JSON.parse(fs.readFileSync(file, "utf8")));
+        } catch {
+          // Not ours
+        }
+      }
+    }
+  };
+  walk(dir, 0);
+  return found;
+}
+
+/**
+ * Find the suite reports under a directory, e.g. `runs/`, oldest first
+ */
+export function loadSuiteReports(dir: string): SuiteResult[] {
+  return readJsonFiles(dir, (file) => file.endsWith(".json"))
+    .filter(
+      // Run manifests (see history.ts) also have cases, but no counts
+      (data): data is SuiteResult =>
+        Boolean(data) &&
+        Array.isArray((data as SuiteResult).cases) &&
+        typeof (data as SuiteResult).passed === "number"
+    )
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+/**
+ * Find the `metrics.json` files that `prompt` and `batch` write under a
+ * directory, e.g. `runs/`
+ */
+export function loadPromptRunMetrics(dir: string): RunMetrics[] {
+  return readJsonFiles(dir, (file) => path.basename(file) === "metrics.json").filter(
+    (data): data is RunMetrics =>
+      Boolean(data) &&
+      Array.isArray((data as RunMetrics).prompts) &&
+      Array.isArray((data as RunMetrics).pageLoads)
+  );
+}
+
+/**
+ * Compare the latest run of every scenario and every prompt of `prompt` and
+ * `batch` runs against the median of up to `window` runs before it. Prompts
+ * are told apart by their batch id, or by their text.
+ * @param promptRuns - The metrics of `prompt` and `batch` runs, see
+ *   `loadPromptRunMetrics()`
+ * @param thresholdPct - How much slower (or more requests) counts as a
+ *   regression
+ */
+export function compareRuns(
+  reports: SuiteResult[],
+  {
+    promptRuns = [],
+    window = 5,
+    thresholdPct = 20,
+  }: { promptRuns?: RunMetrics[]; window?: number; thresholdPct?: number } = {}
+): TrendRow[] {
+  const series = new Map<string, Map<TrendMetric, number[]>>();
+  const add = (name: string, summary: Partial<Record<TrendMetric, number>>) => {
+    const byMetric = series.get(name) ?? new Map<TrendMetric, number[]>();
+    series.set(name, byMetric);
+    for (const [metric, value] of Object.entries(summary)) {
+      byMetric.set(metric as TrendMetric, [...(byMetric.get(metric as TrendMetric) ?? []), value]);
+    }
+  };
+  for (const report of reports) {
+    for (const result of report.cases) {
+      if (!result.metrics || result.status !== "passed") {
+        continue; // Failed runs stop early and would skew the numbers
+      }
+      add(result.name, summarizeMetrics(result.metrics));
+    }
+  }
+  const prompts = promptRuns
+    .flatMap((metrics) => metrics.prompts)
+    .filter((prompt) => prompt.outcome === "completed")
+    .sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+  for (const prompt of prompts) {
+    add(
+      `prompt ${prompt.id ?? prompt.prompt}`,
+      summarizeMetrics({ pageLoads: [], prompts: [prompt], network: prompt.network })
+    );
+  }
+
+  const rows: TrendRow[] = [];
+  for (const [scenario, byMetric] of series) {
+    for (const [metric, values] of byMetric) {
+      const history = values.slice(-(window + 1));
+      const latest = history[history.length - 1];
+      const baseline = median(history.slice(0, -1));
+      const changePct =
+        baseline === undefined || baseline === 0
+          ? undefined
+          : Math.round(((latest - baseline) / baseline) * 1000) / 10;
+      rows.push({
+        scenario,
+        metric,
+        latest,
+        baseline,
+        changePct,
+        regressed: changePct !== undefined && changePct > thresholdPct,
+        history,
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Render trend rows as a Markdown table
+ */
+export function formatTrend(rows: TrendRow[]): string {
+  const format = (metric: TrendMetric, value?: number) =>
+    value === undefined ? "-" : metric === "apiRequests" ? String(value) : `${Math.round(value)}ms`;
+  return [
+    "| Scenario or prompt | Metric | Latest | Baseline | Change | Runs |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...rows.map(
+      (row) =>
+        `| ${row.scenario} | ${TREND_METRICS[row.metric]} | ${format(row.metric, row.latest)} | ${format(
+          row.metric,
+          row.baseline
+        )} | ${
+          row.changePct === undefined
+            ? "-"
+            : `${row.changePct > 0 ? "+" : ""}${row.changePct}%${row.regressed ? " ⚠" : ""}`
+        } | ${row.history.length} |`
+    ),
+  ].join("\n");
+}
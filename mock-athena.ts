@@ -0,0 +1,422 @@
+import http from "http";
+import { pathToFileURL } from "url";
+
+/**
+ * A local stand-in for the Athena web app, so the flows, the runner and the
+ * harness itself can be exercised without an Athena account or network.
+ *
+ * It mimics just enough of the real UI for the page objects in athena.ts and
+ * the locators in locators.ts:
+ *
+ * - a login form with `input[autocomplete="email"]`
+ * - the `h1.MuiBox-root` landing header with Spaces and Library links
+ * - Spaces with the agent dropdown (and its settings icon), suggested
+ *   workflows below "Documentation" and a `div.tiptap.ProseMirror` chat
+ *   input whose answers stream in with a stop button, tool calls and sources
+ * - a Library with a few items
+ *
+ * A prompt containing "trigger error" makes the agent fail with an error
+ * banner, and logins expire when the server restarts, which exercises the
+ * session reuse in session.ts. Run it on its own with `npm run mock-athena`, or use the `mock`
+ * profile, which starts it and drives it with the fake model client from
+ * fake-llm.ts.
+ */
+
+export const MOCK_ATHENA_PORT = 4010;
+
+// Used unless ATHENA_MOCK_USERNAME / ATHENA_MOCK_PASSWORD are set
+export const MOCK_CREDENTIALS = {
+  username: "tester@example.com",
+  password: "mock-password",
+};
+
+export const MOCK_LIBRARY_ITEMS = [
+  { id: "q3-report", title: "Q3 revenue report" },
+  { id: "dog-breeds", title: "Dog breeds overview" },
+  { id: "fx-rates", title: "Exchange rates table" },
+];
+
+const SESSION_COOKIE = "mock_athena_session";
+
+const APP_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Athena (mock)</title>
+<style>
+  body { font-family: sans-serif; margin: 0; }
+  nav { display: flex; gap: 16px; padding: 12px 24px; background: #1f2a44; }
+  nav a { color: #fff; }
+  main { padding: 24px; max-width: 960px; margin: 0 auto; }
+  .toolbar { display: flex; justify-content: center; gap: 8px; position: relative; }
+  .agent-menu { position: absolute; top: 36px; background: #fff; border: 1px solid #ccc; display: flex; flex-direction: column; }
+  .suggested-workflow { display: block; margin: 4px 0; }
+  .message { padding: 8px; margin: 8px 0; border-radius: 4px; }
+  .message.user { background: #eef; }
+  .message.assistant { background: #f6f6f6; white-space: pre-wrap; }
+  .tool-call { display: inline-block; background: #dde; padding: 2px 6px; margin-right: 4px; }
+  .tiptap.ProseMirror { border: 1px solid #888; min-height: 48px; padding: 8px; margin-top: 16px; }
+  .MuiAlert-standardError { background: #fdd; color: #900; padding: 8px; }
+</style>
+</head>
+<body>
+<div id="app"></div>
+<script>
+const app = document.getElementById("app");
+const state = { agent: "General", menuOpen: false };
+
+function loggedIn() {
+  return document.cookie.includes("${SESSION_COOKIE}=");
+}
+
+function el(tag, attributes, ...children) {
+  const element = document.createElement(tag);
+  for (const [key, value] of Object.entries(attributes || {})) {
+    if (key.startsWith("on")) {
+      element.addEventListener(key.slice(2), value);
+    } else {
+      element.setAttribute(key, value);
+    }
+  }
+  element.append(...children);
+  return element;
+}
+
+function nav() {
+  const link = (label, hash) =>
+    el("a", {
+      href: hash,
+      onclick: (event) => {
+        // Clicking Spaces again always starts a new chat
+        event.preventDefault();
+        location.hash = hash;
+        render();
+      },
+    }, label);
+  return el("nav", {}, link("Home", "#/"), link("Spaces", "#/spaces"), link("Library", "#/library"));
+}
+
+function renderLogin() {
+  const error = el("p", { id: "login-error" });
+  const form = el("form", {
+    onsubmit: async (event) => {
+      event.preventDefault();
+      const response = await fetch("/api/login", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ email: form.email.value, password: form.password.value }),
+      });
+      if (response.ok) {
+        render();
+      } else {
+        error.textContent = "Invalid email or password";
+      }
+    },
+  },
+    el("h2", {}, "Log in to Athena"),
+    el("label", {}, "Email ", el("input", { type: "email", name: "email", autocomplete: "email", "aria-label": "email" })),
+    el("br"),
+    el("label", {}, "Password ", el("input", { type: "password", name: "password", autocomplete: "current-password", "aria-label": "password" })),
+    el("br"),
+    el("button", { type: "submit" }, "Log in"),
+    error
+  );
+  app.replaceChildren(el("main", {}, form));
+}
+
+function renderHome() {
+  app.replaceChildren(
+    nav(),
+    el("main", {}, el("h1", { class: "MuiBox-root" }, "Welcome to Athena"), el("p", {}, "Pick Spaces to chat with an agent."))
+  );
+}
+
+function renderSpaces() {
+  state.menuOpen = false;
+  const messages = el("div", { class: "messages" });
+  const toolbar = el("div", { class: "toolbar" });
+  const renderToolbar = () => {
+    toolbar.replaceChildren(
+      el("button", {
+        class: "agent-dropdown",
+        "aria-label": "agent dropdown",
+        "aria-haspopup": "true",
+        "aria-expanded": String(state.menuOpen),
+        onclick: () => {
+          state.menuOpen = !state.menuOpen;
+          renderToolbar();
+        },
+      }, state.agent),
+      el("button", { class: "settings", "aria-label": "settings" }, "⚙"),
+      ...(state.menuOpen
+        ? [el("div", { class: "agent-menu", role: "menu" },
+            ...["General", "Athena", "Researcher"].map((agent) =>
+              el("button", {
+                role: "menuitem",
+                onclick: () => {
+                  state.agent = agent;
+                  state.menuOpen = false;
+                  renderToolbar();
+                },
+              }, agent)
+            ))]
+        : [])
+    );
+  };
+  renderToolbar();
+
+  const input = el("div", {
+    class: "tiptap ProseMirror",
+    contenteditable: "true",
+    role: "textbox",
+    "aria-label": "chat input",
+    onkeydown: (event) => {
+      if (event.key === "Enter" && !event.shiftKey) {
+        event.preventDefault();
+        const prompt = input.innerText.trim();
+        input.innerHTML = "";
+        if (prompt) {
+          send(prompt, messages);
+        }
+      }
+    },
+  });
+
+  const workflows = ["Summarize the latest product documentation", "Draft release notes from the changelog"];
+  app.replaceChildren(
+    nav(),
+    el("main", {},
+      toolbar,
+      el("h1", { class: "MuiBox-root" }, "Spaces"),
+      el("section", { class: "documentation" },
+        el("h2", {}, "Documentation"),
+        ...workflows.map((workflow) =>
+          el("button", { class: "suggested-workflow", onclick: () => send(workflow, messages) }, workflow)
+        )
+      ),
+      messages,
+      input
+    )
+  );
+}
+
+async function send(prompt, messages) {
+  messages.append(el("div", { class: "message user" }, prompt));
+  const answer = el("div", { class: "message assistant" });
+  const tools = el("div", { class: "tools" });
+  const stop = el("button", { "aria-label": "Stop generating" }, "Stop");
+  messages.append(tools, answer, stop);
+
+  const response = await fetch("/api/chat", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ prompt, agent: state.agent }),
+  });
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\\n");
+    buffer = lines.pop();
+    for (const line of lines.filter(Boolean)) {
+      const event = JSON.parse(line);
+      if (event.type === "tool") {
+        tools.append(el("span", { class: "tool-call" }, event.name));
+      } else if (event.type === "text") {
+        answer.append(event.text);
+      } else if (event.type === "sources") {
+        messages.append(el("div", { class: "sources" },
+          el("h3", {}, "Sources"),
+          el("ol", {}, ...event.sources.map((source) => el("li", {}, el("a", { href: source.url }, source.title))))
+        ));
+      } else if (event.type === "error") {
+        messages.append(el("div", { role: "alert", class: "MuiAlert-standardError" }, event.message));
+      }
+    }
+  }
+  stop.remove();
+}
+
+function renderLibrary(itemId) {
+  const items = ${JSON.stringify(MOCK_LIBRARY_ITEMS)};
+  const item = items.find((candidate) => candidate.id === itemId);
+  app.replaceChildren(
+    nav(),
+    el("main", {},
+      el("h1", { class: "MuiBox-root" }, "Library"),
+      item
+        ? el("article", {}, el("h2", {}, item.title), el("p", {}, "Contents of " + item.title + "."))
+        : el("ul", {}, ...items.map((candidate) =>
+            el("li", {}, el("a", { href: "#/library/" + candidate.id }, candidate.title))
+          ))
+    )
+  );
+}
+
+function render() {
+  if (!loggedIn()) {
+    return renderLogin();
+  }
+  const [, page, id] = location.hash.split("/");
+  if (page === "spaces") {
+    renderSpaces();
+  } else if (page === "library") {
+    renderLibrary(id);
+  } else {
+    renderHome();
+  }
+}
+
+window.addEventListener("hashchange", render);
+render();
+</script>
+</body>
+</html>
+`;
+
+function answerFor(prompt: string, agent: string): string[] {
+  return [
+    `${agent} here. `,
+    `Here is what I found about "${prompt}". `,
+    "The most relevant results come from two sources, ",
+    "summarized below with the key points first. ",
+    "Let me know if you want more detail on any of them.",
+  ];
+}
+
+function readBody(request: http.IncomingMessage): Promise<Record<string, string>> {
+  return new Promise((resolve) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      try {
+        resolve(JSON.parse(body || "{}"));
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface MockAthena {
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the mock Athena app
+ * @param port - 0 picks a free port
+ * @param chunkDelayMs - Delay between the streamed chunks of an answer
+ */
+export async function startMockAthena({
+  port = MOCK_ATHENA_PORT,
+  chunkDelayMs = 300,
+}: { port?: number; chunkDelayMs?: number } = {}): Promise<MockAthena> {
+  // The mock profile reads its credentials from these, like every profile
+  process.env.ATHENA_MOCK_USERNAME ??= MOCK_CREDENTIALS.username;
+  process.env.ATHENA_MOCK_PASSWORD ??= MOCK_CREDENTIALS.password;
+
+  // Sessions only live as long as the server, so restarting it expires them
+  const sessions = new Set<string>();
+  const sessionOf = (request: http.IncomingMessage) =>
+    request.headers.cookie?.match(new RegExp(`${SESSION_COOKIE}=([^;]+)`))?.[1];
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (request.method === "POST" && url.pathname === "/api/login") {
+      const { email, password } = await readBody(request);
+      if (
+        email === process.env.ATHENA_MOCK_USERNAME &&
+        password === process.env.ATHENA_MOCK_PASSWORD
+      ) {
+        const session = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+        sessions.add(session);
+        response.writeHead(200, {
+          "content-type": "application/json",
+          "set-cookie": `${SESSION_COOKIE}=${session}; Path=/; SameSite=Lax`,
+        });
+        response.end(JSON.stringify({ ok: true }));
+      } else {
+        response.writeHead(401, { "content-type": "application/json" });
+        response.end(JSON.stringify({ error: "Invalid email or password" }));
+      }
+      return;
+    }
+
+    if (request.method === "POST" && url.pathname === "/api/chat") {
+      if (!sessions.has(sessionOf(request) ?? "")) {
+        response.writeHead(401).end();
+        return;
+      }
+      const { prompt = "", agent = "General" } = await readBody(request);
+      response.writeHead(200, { "content-type": "application/x-ndjson" });
+      const write = (event: object) => response.write(JSON.stringify(event) + "\n");
+      write({ type: "tool", name: "Web search" });
+      for (const text of answerFor(prompt, agent)) {
+        await sleep(chunkDelayMs);
+        write({ type: "text", text });
+      }
+      if (/trigger error/i.test(prompt)) {
+        write({ type: "error", message: "The agent ran into an error. Please try again." });
+      } else {
+        write({
+          type: "sources",
+          sources: [
+            { title: "Mock source one", url: "https://example.com/one" },
+            { title: "Mock source two", url: "https://example.com/two" },
+          ],
+        });
+      }
+      response.end();
+      return;
+    }
+
+    if (request.method === "GET" && url.pathname === "/") {
+      const session = sessionOf(request);
+      response.writeHead(200, {
+        "content-type": "text/html; charset=utf-8",
+        // An unknown session has expired: drop it, so the app shows the login form
+        ...(session && !sessions.has(session)
+          ? { "set-cookie": `${SESSION_COOKIE}=; Path=/; Max-Age=0` }
+          : {}),
+      });
+      response.end(APP_HTML);
+      return;
+    }
+    response.writeHead(404).end();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", resolve);
+  });
+  const address = server.address();
+  const url = `http://localhost:${typeof address === "object" && address ? address.port : port}/`;
+  console.log(`Mock Athena listening on ${url}`);
+
+  return {
+    url,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+// `npm run mock-athena` serves the app until interrupted
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.MOCK_ATHENA_PORT) || MOCK_ATHENA_PORT;
+  startMockAthena({ port }).then(({ url }) =>
+    console.log(
+      `Log in as ${process.env.ATHENA_MOCK_USERNAME} / ${process.env.ATHENA_MOCK_PASSWORD} at ${url}`
+    )
+  );
+}
@@ -0,0 +1,445 @@
+import { BrowserContext } from "@browserbasehq/stagehand";
+import type { Page, Request, Route, WebSocket } from "@playwright/test";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { API_CONTRACTS, ApiContract } from "./api-contracts.js";
+import { AthenaTestError, UsageError } from "./errors.js";
+import { logger } from "./logger.js";
+import { API_RESOURCE_TYPES } from "./metrics.js";
+
+/**
+ * Network checks: an opt-in recorder on the browser context that keeps every
+ * API call (fetch, XHR, EventSource and WebSocket) a scenario makes, checks
+ * responses against the contracts in api-contracts.ts, and flags calls that
+ * returned 4xx/5xx, failed outright, broke their contract or were slow.
+ *
+ * It can also stub endpoints with fixtures to reproduce edge cases the real
+ * backend rarely produces, like an agent error halfway through an answer:
+ *
+ * ```yaml
+ * network:
+ *   slowMs: 3000
+ *   stubs:
+ *     - url: "**\/api/chat"
+ *       method: POST
+ *       fixture: chat-agent-error.json   # In fixtures/
+ * ```
+ *
+ * A fixture holds the response: `status`, `headers`, `contentType` and a
+ * `body` string or a `json` value. The same fields can be given inline on
+ * the stub and override the fixture's. Stubbed calls are recorded but never
+ * flagged, since their responses are made up.
+ */
+
+export const DEFAULT_FIXTURES_DIR = "fixtures";
+
+export const API_PROBLEMS = ["status", "contract", "slow"] as const;
+
+export type ApiProblem = (typeof API_PROBLEMS)[number];
+
+const StubResponseSchema = z.object({
+  status: z.number().int().min(100).max(599).optional(),
+  headers: z.record(z.string()).optional(),
+  contentType: z.string().optional(),
+  body: z.string().optional(),
+  json: z.unknown().optional(),
+});
+
+const StubSchema = StubResponseSchema.extend({
+  url: z.string() /* URL glob, e.g. "**\/api/chat" */,
+  method: z.string().optional(),
+  fixture: z.string().optional() /* JSON file with the response, in the fixtures directory */,
+  delayMs: z.number().int().nonnegative().default(0),
+  times: z.number().int().positive().optional() /* Only stub the first matching requests */,
+});
+
+export const NetworkSettingsSchema = z.object({
+  slowMs: z
+    .number()
+    .int()
+    .positive()
+    .default(5000) /* Calls slower than this are flagged, unless their contract says otherwise */,
+  ignore: z.array(z.string()).default([]) /* URL globs of calls never flagged */,
+  fixturesDir: z.string().default(DEFAULT_FIXTURES_DIR),
+  stubs: z.array(StubSchema).default([]),
+});
+
+export type NetworkSettings = z.infer<typeof NetworkSettingsSchema>;
+
+export interface ApiCall {
+  method: string; // "WS" for WebSockets
+  url: string;
+  resourceType: string;
+  startedAt: string;
+  durationMs?: number;
+  status?: number;
+  failure?: string; // Why the request failed without a response
+  unfinished?: boolean; // Still running when the recording stopped
+  stubbed?: boolean;
+  contract?: string; // Name of the contract the response was checked against
+  issues?: string[]; // Where the response broke its contract
+  frames?: number; // Messages received on a WebSocket
+  problems: ApiProblem[];
+}
+
+export interface NetworkReport {
+  calls: ApiCall[];
+  flagged: Record<ApiProblem, number>; // Calls with each problem
+}
+
+const MAX_ISSUES = 20;
+
+/**
+ * Match URLs like Playwright's route globs: `*` stays within a path
+ * segment, `**` crosses them
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    if (glob[i] === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (glob[i] === "*") {
+      source += "[^/]*";
+    } else {
+      source += glob[i].replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function urlPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Check a response body against a contract
+ * @returns The violations, as `<path>: <message>`; empty when it conforms
+ */
+export function contractIssues(contract: ApiContract, body: string): string[] {
+  let values: unknown[];
+  try {
+    values =
+      contract.format === "ndjson"
+        ? body
+            .split("\n")
+            .filter((line) => line.trim())
+            .map((line) => JSON.parse(line))
+        : [JSON.parse(body)];
+  } catch (error) {
+    return [`not ${contract.format === "ndjson" ? "NDJSON" : "JSON"}: ${(error as Error).message}`];
+  }
+  return values
+    .flatMap((value, index) => {
+      const result = contract.schema.safeParse(value);
+      if (result.success) {
+        return [];
+      }
+      const prefix = values.length > 1 ? `[${index}].` : "";
+      return result.error.issues.map(
+        (issue) => `${prefix}${issue.path.join(".") || "<root>"}: ${issue.message}`
+      );
+    })
+    .slice(0, MAX_ISSUES);
+}
+
+function loadStubResponse(
+  stub: z.infer<typeof StubSchema>,
+  fixturesDir: string
+): Parameters<Route["fulfill"]>[0] {
+  let fixture: z.infer<typeof StubResponseSchema> = {};
+  if (stub.fixture) {
+    const file = path.join(fixturesDir, stub.fixture);
+    if (!fs.existsSync(file)) {
+      throw new UsageError(`Fixture ${file} of the stub for ${stub.url} does not exist`);
+    }
+    const result = StubResponseSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf8")));
+    if (!result.success) {
+      throw new UsageError(`Invalid fixture ${file}: ${result.error.issues[0].message}`);
+    }
+    fixture = result.data;
+  }
+  const inline = Object.fromEntries(
+    Object.entries(StubResponseSchema.parse(stub)).filter(([, value]) => value !== undefined)
+  );
+  const response = { ...fixture, ...inline };
+  return {
+    status: response.status ?? 200,
+    headers: response.headers,
+    contentType: response.contentType ?? (response.json !== undefined ? "application/json" : undefined),
+    body: response.json !== undefined ? JSON.stringify(response.json) : (response.body ?? ""),
+  };
+}
+
+/**
+ * One line per flagged call, e.g. `POST http://…/api/chat: 500`
+ */
+export function describeApiCall(call: ApiCall): string {
+  const details = [
+    call.failure ?? (call.status !== undefined ? String(call.status) : "no response"),
+    ...(call.issues?.length
+      ? [`breaks the ${call.contract} contract: ${call.issues.slice(0, 3).join("; ")}`]
+      : []),
+    ...(call.durationMs !== undefined ? [`${call.durationMs}ms`] : []),
+  ];
+  return `${call.method} ${call.url}: ${details.join(", ")}`;
+}
+
+export function summarizeNetwork(report: NetworkReport): string {
+  return `${report.calls.length} API calls, ${report.flagged.status} failed, ${report.flagged.contract} broke their contract, ${report.flagged.slow} slow`;
+}
+
+/**
+ * API calls broke the checks of a `checkApi` step
+ */
+export class ApiCheckError extends AthenaTestError {
+  constructor(
+    message: string,
+    readonly calls: ApiCall[]
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Records the API calls of every page in a browser context, from `start()`
+ * until `finish()`. Routes for stubs are removed again by `finish()`, so a
+ * context shared by the cases of a suite starts clean for the next one.
+ */
+export class NetworkRecorder {
+  readonly calls: ApiCall[] = [];
+  private inFlight = new Map<Request, ApiCall>();
+  private stubbed = new WeakSet<Request>();
+  private pending = new Set<Promise<void>>();
+  private routes: { matcher: RegExp; handler: (route: Route) => Promise<void> }[] = [];
+  private ignored: RegExp[];
+
+  constructor(
+    private context: BrowserContext,
+    private settings: NetworkSettings,
+    private contracts: ApiContract[] = API_CONTRACTS
+  ) {
+    this.ignored = settings.ignore.map(globToRegExp);
+  }
+
+  async start() {
+    for (const stub of this.settings.stubs) {
+      const response = loadStubResponse(stub, this.settings.fixturesDir);
+      let served = 0;
+      const handler = async (route: Route) => {
+        const request = route.request();
+        if (
+          (stub.method && request.method() !== stub.method.toUpperCase()) ||
+          (stub.times !== undefined && served >= stub.times)
+        ) {
+          await route.fallback();
+          return;
+        }
+        served++;
+        this.stubbed.add(request);
+        logger.info(`Stubbing ${request.method()} ${request.url()}`);
+        if (stub.delayMs) {
+          await new Promise((resolve) => setTimeout(resolve, stub.delayMs));
+        }
+        await route.fulfill(response);
+      };
+      const matcher = globToRegExp(stub.url);
+      await this.context.route(matcher, handler);
+      this.routes.push({ matcher, handler });
+    }
+
+    this.context.on("request", this.onRequest);
+    this.context.on("requestfinished", this.onRequestFinished);
+    this.context.on("requestfailed", this.onRequestFailed);
+    this.context.on("page", this.watchPage);
+    this.context.pages().forEach(this.watchPage);
+  }
+
+  private contractFor(method: string, url: string): ApiContract | undefined {
+    return this.contracts.find(
+      (contract) =>
+        (!contract.method || contract.method === method) && contract.path.test(urlPath(url))
+    );
+  }
+
+  private flag(call: ApiCall) {
+    call.problems = [];
+    if (call.stubbed || this.ignored.some((glob) => glob.test(call.url))) {
+      return;
+    }
+    if (call.failure || (call.status ?? 0) >= 400) {
+      call.problems.push("status");
+    }
+    if (call.issues?.length) {
+      call.problems.push("contract");
+    }
+    const limit = this.contractFor(call.method, call.url)?.maxMs ?? this.settings.slowMs;
+    if (call.resourceType !== "websocket" && (call.durationMs ?? 0) > limit) {
+      call.problems.push("slow");
+    }
+  }
+
+  private track(work: Promise<void>) {
+    this.pending.add(work);
+    void work.finally(() => this.pending.delete(work));
+  }
+
+  private onRequest = (request: Request) => {
+    const resourceType = request.resourceType();
+    // WebSockets are recorded per page, see watchPage
+    if (!API_RESOURCE_TYPES.has(resourceType) || resourceType === "websocket") {
+      return;
+    }
+    const call: ApiCall = {
+      method: request.method(),
+      url: request.url(),
+      resourceType,
+      startedAt: new Date().toISOString(),
+      problems: [],
+    };
+    this.calls.push(call);
+    this.inFlight.set(request, call);
+  };
+
+  private onRequestFinished = (request: Request) => {
+    const call = this.inFlight.get(request);
+    if (!call) {
+      return;
+    }
+    this.inFlight.delete(request);
+    call.durationMs = Date.now() - Date.parse(call.startedAt);
+    call.stubbed = this.stubbed.has(request) || undefined;
+    this.track(this.inspect(request, call));
+  };
+
+  private onRequestFailed = (request: Request) => {
+    const call = this.inFlight.get(request);
+    if (!call) {
+      return;
+    }
+    this.inFlight.delete(request);
+    call.durationMs = Date.now() - Date.parse(call.startedAt);
+    call.failure = request.failure()?.errorText ?? "failed";
+    this.flag(call);
+  };
+
+  private async inspect(request: Request, call: ApiCall) {
+    try {
+      const response = await request.response();
+      call.status = response?.status();
+      const contract = this.contractFor(call.method, call.url);
+      if (response && contract && response.status() < 400) {
+        call.contract = contract.name;
+        if (!call.stubbed) {
+          call.issues = contractIssues(contract, await response.text());
+        }
+      }
+    } catch {
+      // The page went away before the body could be read
+    }
+    this.flag(call);
+  }
+
+  private watchPage = (page: Page) => {
+    page.on("websocket", (socket: WebSocket) => {
+      const call: ApiCall = {
+        method: "WS",
+        url: socket.url(),
+        resourceType: "websocket",
+        startedAt: new Date().toISOString(),
+        frames: 0,
+        problems: [],
+      };
+      this.calls.push(call);
+      const contract = this.contractFor("WS", call.url);
+      const issues: string[] = [];
+      if (contract) {
+        call.contract = contract.name;
+        call.issues = issues;
+      }
+      socket.on("framereceived", ({ payload }) => {
+        call.frames = (call.frames ?? 0) + 1;
+        if (contract && typeof payload === "string" && issues.length < MAX_ISSUES) {
+          issues.push(...contractIssues(contract, payload));
+        }
+      });
+      socket.on("socketerror", (error) => {
+        call.failure = error;
+      });
+      socket.on("close", () => {
+        call.durationMs = Date.now() - Date.parse(call.startedAt);
+        this.flag(call);
+      });
+    });
+  };
+
+  /**
+   * Wait until every finished call has been checked
+   */
+  async settle() {
+    await Promise.all([...this.pending]);
+    this.calls.filter((call) => call.durationMs === undefined).forEach((call) => this.flag(call));
+  }
+
+  /**
+   * The calls so far with any of the given problems
+   * @param url - Only calls whose URL matches this glob
+   */
+  flaggedCalls(problems: readonly ApiProblem[] = API_PROBLEMS, url?: string): ApiCall[] {
+    const matcher = url ? globToRegExp(url) : undefined;
+    return this.calls.filter(
+      (call) =>
+        (!matcher || matcher.test(call.url)) &&
+        call.problems.some((problem) => problems.includes(problem))
+    );
+  }
+
+  /**
+   * The calls so far whose URL matches a glob
+   */
+  callsTo(url: string): ApiCall[] {
+    const matcher = globToRegExp(url);
+    return this.calls.filter((call) => matcher.test(call.url));
+  }
+
+  /**
+   * Stop recording and remove the stubs
+   */
+  async finish(): Promise<NetworkReport> {
+    this.context.off("request", this.onRequest);
+    this.context.off("requestfinished", this.onRequestFinished);
+    this.context.off("requestfailed", this.onRequestFailed);
+    this.context.off("page", this.watchPage);
+    for (const { matcher, handler } of this.routes) {
+      await this.context.unroute(matcher, handler).catch(() => {});
+    }
+    await this.settle();
+
+    const now = Date.now();
+    for (const call of this.calls.filter((call) => call.durationMs === undefined)) {
+      call.unfinished = true;
+      call.durationMs = now - Date.parse(call.startedAt);
+      this.flag(call);
+    }
+    const report: NetworkReport = {
+      calls: this.calls,
+      flagged: Object.fromEntries(
+        API_PROBLEMS.map((problem) => [
+          problem,
+          this.calls.filter((call) => call.problems.includes(problem)).length,
+        ])
+      ) as Record<ApiProblem, number>,
+    };
+    for (const call of this.flaggedCalls()) {
+      logger.warn(`Flagged API call (${call.problems.join(", ")}): ${describeApiCall(call)}`, {
+        problems: call.problems,
+      });
+    }
+    return report;
+  }
+}
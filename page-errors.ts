@@ -0,0 +1,179 @@
+import { Page } from "@browserbasehq/stagehand";
+import type { ConsoleMessage, Request, Response } from "@playwright/test";
+import { z } from "zod";
+import { AthenaTestError } from "./errors.js";
+import { API_RESOURCE_TYPES } from "./metrics.js";
+
+/**
+ * Page errors: console errors, uncaught exceptions, unhandled promise
+ * rejections and failed resource loads (scripts, styles, images, fonts) of
+ * the Athena frontend, collected per scenario step. A step can pass while
+ * the app throws behind the scenes; depending on the policy such a step
+ * fails (`fail`), passes with the errors in its report (`warn`, the
+ * default), or nothing is collected (`off`).
+ *
+ * Messages matching `KNOWN_NOISE` or a scenario's `allow` list are dropped.
+ * Failed API calls are left to the network checks in network.ts.
+ */
+
+export const PAGE_ERROR_POLICIES = ["fail", "warn", "off"] as const;
+
+export type PageErrorPolicy = (typeof PAGE_ERROR_POLICIES)[number];
+
+function isRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const PageErrorCheckSchema = z.object({
+  policy: z.enum(PAGE_ERROR_POLICIES).optional() /* Overrides `run --page-errors` */,
+  allow: z
+    .array(z.string().refine(isRegExp, "Not a valid regular expression"))
+    .default([]) /* Regular expressions of messages to ignore */,
+});
+
+/**
+ * Messages every page produces that say nothing about Athena
+ */
+export const KNOWN_NOISE: RegExp[] = [
+  /ResizeObserver loop (limit exceeded|completed with undelivered notifications)/,
+  // Chromium logs one for every 4xx/5xx response, which are reported on their own
+  /^Failed to load resource: the server responded with a status of/,
+  /net::ERR_ABORTED/, // Requests cancelled by a navigation
+  /\/favicon\.ico\b/,
+];
+
+export type PageErrorKind = "console" | "pageerror" | "unhandledrejection" | "resource";
+
+export interface PageErrorEntry {
+  kind: PageErrorKind;
+  message: string;
+  location?: string; // Source of a console message, or URL of a resource
+  timestamp: string;
+}
+
+// Unhandled rejections are reported through the console with this prefix.
+// Chromium also reports them as page errors, which are merged into these.
+const REJECTION_PREFIX = "[athena-test] Unhandled rejection: ";
+
+function reportRejections(prefix: string) {
+  const flag = "__athenaTestRejections";
+  if ((window as unknown as Record<string, boolean>)[flag]) {
+    return;
+  }
+  (window as unknown as Record<string, boolean>)[flag] = true;
+  window.addEventListener("unhandledrejection", (event) => {
+    const reason = event.reason;
+    console.error(prefix + (reason instanceof Error ? reason.stack || reason.message : String(reason)));
+  });
+}
+
+export class PageErrorsError extends AthenaTestError {
+  constructor(readonly errors: PageErrorEntry[]) {
+    super(`${errors.length} page errors: ${errors.map(formatPageError).slice(0, 5).join("; ")}`);
+  }
+}
+
+export function formatPageError(entry: PageErrorEntry): string {
+  const message = entry.message.split("\n")[0];
+  return `${entry.kind}: ${message}${entry.location ? ` (${entry.location})` : ""}`;
+}
+
+/**
+ * Collects the page errors of one page, from `start()` to `stop()`
+ */
+export class PageErrorRecorder {
+  private entries: PageErrorEntry[] = [];
+  private unpaired = new Set<PageErrorEntry>(); // Rejections or page errors not yet merged
+  private allow: RegExp[];
+
+  /**
+   * @param allow - Regular expressions of messages to ignore, on top of
+   *   `KNOWN_NOISE`
+   */
+  constructor(
+    private page: Page,
+    allow: string[] = []
+  ) {
+    this.allow = [...KNOWN_NOISE, ...allow.map((pattern) => new RegExp(pattern))];
+  }
+
+  async start() {
+    this.page.on("console", this.onConsole);
+    this.page.on("pageerror", this.onPageError);
+    this.page.on("requestfailed", this.onRequestFailed);
+    this.page.on("response", this.onResponse);
+    await this.page.context().addInitScript(reportRejections, REJECTION_PREFIX);
+    // The init script only runs on the next navigation
+    await this.page.evaluate(reportRejections, REJECTION_PREFIX).catch(() => {});
+  }
+
+  stop() {
+    this.page.off("console", this.onConsole);
+    this.page.off("pageerror", this.onPageError);
+    this.page.off("requestfailed", this.onRequestFailed);
+    this.page.off("response", this.onResponse);
+  }
+
+  private push(kind: PageErrorKind, message: string, location?: string) {
+    if (this.allow.some((pattern) => pattern.test(message) || (location && pattern.test(location)))) {
+      return;
+    }
+    const entry: PageErrorEntry = { kind, message, location, timestamp: new Date().toISOString() };
+    if (kind === "pageerror" || kind === "unhandledrejection") {
+      // A rejection arrives twice, as a console message and a page error, in either order
+      const firstLine = message.split("\n")[0];
+      const twin = [...this.unpaired].find(
+        (other) => other.kind !== kind && other.message.split("\n")[0] === firstLine
+      );
+      if (twin) {
+        this.unpaired.delete(twin);
+        twin.kind = "unhandledrejection";
+        return;
+      }
+      this.unpaired.add(entry);
+    }
+    this.entries.push(entry);
+  }
+
+  private onConsole = (message: ConsoleMessage) => {
+    if (message.type() !== "error") {
+      return;
+    }
+    const text = message.text();
+    const { url, lineNumber } = message.location();
+    if (text.startsWith(REJECTION_PREFIX)) {
+      this.push("unhandledrejection", text.slice(REJECTION_PREFIX.length));
+    } else {
+      this.push("console", text, url ? `${url}:${lineNumber}` : undefined);
+    }
+  };
+
+  private onPageError = (error: Error) => {
+    this.push("pageerror", error.stack || error.message);
+  };
+
+  private onRequestFailed = (request: Request) => {
+    if (!API_RESOURCE_TYPES.has(request.resourceType())) {
+      this.push("resource", request.failure()?.errorText ?? "failed", request.url());
+    }
+  };
+
+  private onResponse = (response: Response) => {
+    if (response.status() >= 400 && !API_RESOURCE_TYPES.has(response.request().resourceType())) {
+      this.push("resource", `${response.status()} ${response.statusText()}`.trim(), response.url());
+    }
+  };
+
+  /**
+   * The errors collected since the last call
+   */
+  take(): PageErrorEntry[] {
+    this.unpaired.clear();
+    return this.entries.splice(0);
+  }
+}
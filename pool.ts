@@ -0,0 +1,191 @@
+import { LogLine, Stagehand } from "@browserbasehq/stagehand";
+import fs from "fs";
+import path from "path";
+import { attachForensics, LogBuffer } from "./forensics.js";
+import { captureConsole, logStagehandLine, withLogContext } from "./logger.js";
+import type { PageErrorPolicy } from "./page-errors.js";
+import type { Profile } from "./profiles.js";
+import {
+  Recording,
+  recordingLaunchOptions,
+  RecordingOptions,
+  startRecording,
+} from "./recording.js";
+import type { SuiteResult } from "./runner.js";
+import { runScenario, Scenario, ScenarioResult } from "./scenario.js";
+import { redact, writeRedactedFile } from "./secrets.js";
+import { createStagehandConfig, logLineToString } from "./stagehand.config.js";
+import type { VisualSettings } from "./visual.js";
+
+/**
+ * Worker pool that runs scenarios concurrently, each on its own Stagehand
+ * instance (and so its own browser or Browserbase session).
+ *
+ * Output of each worker is prefixed with `[w<n>:<scenario>]` and every
+ * scenario writes to its own directory under the run directory:
+ *
+ * ```
+ * runs/<runId>/
+ *   01-athena-any-prompt/screenshots/...
+ *   01-athena-any-prompt/analysis/result.json
+ *   01-athena-any-prompt/failures/...       (see forensics.ts)
+ *   01-athena-any-prompt/recordings/...     (see recording.ts)
+ *   02-athena-suggested-workflow/...
+ *   visual/<scenario>/...                   (see visual.ts)
+ *   <suite name>.json, <suite name>.xml
+ * ```
+ */
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+export function createRunId(): string {
+  return new Date().toISOString().replace(/[:.]/g, "-");
+}
+
+async function runIsolated(
+  scenario: Scenario,
+  scenarioDir: string,
+  profile: Profile,
+  recordingModes: Omit<RecordingOptions, "dir">,
+  visual?: VisualSettings,
+  pageErrorPolicy?: PageErrorPolicy
+): Promise<ScenarioResult> {
+  const screenshotsDir = path.join(scenarioDir, "screenshots");
+  const analysisDir = path.join(scenarioDir, "analysis");
+  fs.mkdirSync(screenshotsDir, { recursive: true });
+  fs.mkdirSync(analysisDir, { recursive: true });
+
+  const recordingOptions: RecordingOptions = {
+    ...recordingModes,
+    dir: path.join(scenarioDir, "recordings"),
+  };
+  const log = new LogBuffer();
+  const config = createStagehandConfig(profile);
+  const stagehand = new Stagehand({
+    ...config,
+    localBrowserLaunchOptions: {
+      ...config.localBrowserLaunchOptions,
+      ...recordingLaunchOptions(recordingOptions),
+    },
+    logger: (message: LogLine) => {
+      log.push(redact(logLineToString(message)));
+      logStagehandLine(message);
+    },
+  });
+
+  let result: ScenarioResult;
+  let recording: Recording | undefined;
+  try {
+    await stagehand.init();
+    attachForensics(stagehand.page, { log });
+    recording = await startRecording(stagehand.context, recordingOptions);
+    if (stagehand.browserbaseSessionID) {
+      console.log(
+        `Session: https://browserbase.com/sessions/${stagehand.browserbaseSessionID}`
+      );
+    }
+    result = await runScenario({
+      page: stagehand.page,
+      context: stagehand.context,
+      stagehand,
+      profile,
+      scenario,
+      screenshotsDir,
+      failuresDir: path.join(scenarioDir, "failures"),
+      visual,
+      pageErrorPolicy,
+    });
+  } catch (error) {
+    // Browser or session setup failed before the scenario could run
+    console.error("Worker failed:", error);
+    result = {
+      name: scenario.name,
+      status: "failed",
+      startedAt: new Date().toISOString(),
+      durationMs: 0,
+      steps: [],
+      extracted: {},
+      cache: { hits: 0, misses: 0, stale: 0 },
+      locators: [],
+      error: error instanceof Error ? error.message : String(error),
+      failureKind: "infra",
+    };
+  }
+
+  const close = () => stagehand.close().catch(() => undefined);
+  if (recording) {
+    result.recording = await recording.finish({ failed: result.status === "failed", close });
+  } else {
+    await close();
+  }
+
+  writeRedactedFile(path.join(analysisDir, "result.json"), JSON.stringify(result, null, 2));
+  return result;
+}
+
+/**
+ * Run scenarios with at most `concurrency` running at the same time
+ * @returns The aggregated result, with cases in the order of `scenarios`
+ */
+export async function runParallel({
+  name,
+  scenarios,
+  concurrency,
+  runDir,
+  profile,
+  recording = { trace: "never", video: "never" },
+  visual,
+  pageErrorPolicy,
+}: {
+  name: string;
+  scenarios: Scenario[];
+  concurrency: number;
+  runDir: string;
+  profile: Profile; // Athena deployment and Stagehand settings for every worker
+  recording?: Omit<RecordingOptions, "dir">; // Trace and video modes of every worker
+  visual?: VisualSettings; // Baselines for compareScreenshot steps
+  pageErrorPolicy?: PageErrorPolicy; // What console and page errors do to a scenario
+}): Promise<SuiteResult> {
+  // Tag everything a worker logs with its worker number and scenario
+  captureConsole();
+  const start = Date.now();
+  const results: ScenarioResult[] = new Array(scenarios.length);
+  const width = String(scenarios.length).length;
+  let next = 0;
+
+  const worker = async (workerIndex: number) => {
+    while (next < scenarios.length) {
+      const index = next++;
+      const scenario = scenarios[index];
+      const scenarioDir = path.join(
+        runDir,
+        `${String(index + 1).padStart(Math.max(width, 2), "0")}-${slugify(scenario.name)}`
+      );
+      results[index] = await withLogContext(
+        { worker: workerIndex + 1, scenario: scenario.name },
+        () => runIsolated(scenario, scenarioDir, profile, recording, visual, pageErrorPolicy)
+      );
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, scenarios.length));
+  console.log(
+    `Running ${scenarios.length} scenarios on ${workerCount} workers into ${runDir}`
+  );
+  await Promise.all(Array.from({ length: workerCount }, (_, i) => worker(i)));
+
+  const failed = results.filter((result) => result.status === "failed").length;
+  return {
+    name,
+    startedAt: new Date(start).toISOString(),
+    durationMs: Date.now() - start,
+    passed: results.length - failed,
+    failed,
+    cases: results,
+  };
+}
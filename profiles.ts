@@ -0,0 +1,201 @@
+import { AvailableModelSchema } from "@browserbasehq/stagehand";
+import fs from "fs";
+import { z } from "zod";
+import { UsageError } from "./errors.js";
+import type { AthenaCredentials } from "./athena.js";
+import { getSecret, validateSecrets } from "./secrets.js";
+import { sessionStatePath } from "./session.js";
+import { getEnvVar } from "./utils.js";
+
+/**
+ * Environment profiles: everything that differs between running against
+ * production, staging or a local Athena, selected with `--profile` or the
+ * ATHENA_PROFILE environment variable.
+ *
+ * Profiles can be added or overridden in the `profiles` section of
+ * `athena-test.config.json`; overrides are merged onto the built-in profile
+ * of the same name:
+ *
+ * ```json
+ * { "profiles": { "staging": { "headless": true, "timeouts": { "completionMs": 900000 } } } }
+ * ```
+ */
+
+export const ProfileSchema = z.object({
+  baseUrl: z.string().url(),
+  credentials: z.object({
+    usernameEnv: z.string() /* Environment variable holding the username */,
+    passwordEnv: z.string() /* Environment variable holding the password */,
+  }),
+  env: z.enum(["LOCAL", "BROWSERBASE"]),
+  modelName: AvailableModelSchema,
+  viewport: z.object({ width: z.number().int(), height: z.number().int() }),
+  headless: z.boolean(),
+  timeouts: z.object({
+    navigationMs: z.number().int().positive(),
+    domSettleMs: z.number().int().positive(),
+    completionMs: z.number().int().positive(),
+  }),
+  mock: z.boolean().optional() /* Serve the mock Athena app and use the fake model client */,
+  reuseSession: z.boolean().optional() /* Save the login and reuse it on later runs, default true */,
+});
+
+export type Profile = z.infer<typeof ProfileSchema> & { name: string };
+
+const production: z.infer<typeof ProfileSchema> = {
+  baseUrl: "https://app.athenaintel.com/",
+  credentials: { usernameEnv: "ATHENA_USERNAME", passwordEnv: "ATHENA_PASSWORD" },
+  env: "BROWSERBASE",
+  modelName: "claude-3-5-sonnet-20241022",
+  viewport: { width: 1920, height: 1080 },
+  headless: false,
+  timeouts: { navigationMs: 60_000, domSettleMs: 30_000, completionMs: 600_000 },
+};
+
+export const BUILT_IN_PROFILES: Record<string, z.infer<typeof ProfileSchema>> = {
+  production,
+  staging: {
+    ...production,
+    baseUrl: "https://staging-app.athenaintel.com/",
+    credentials: {
+      usernameEnv: "ATHENA_STAGING_USERNAME",
+      passwordEnv: "ATHENA_STAGING_PASSWORD",
+    },
+  },
+  local: {
+    ...production,
+    baseUrl: "http://localhost:3000/",
+    credentials: {
+      usernameEnv: "ATHENA_LOCAL_USERNAME",
+      passwordEnv: "ATHENA_LOCAL_PASSWORD",
+    },
+    env: "LOCAL",
+    timeouts: { navigationMs: 30_000, domSettleMs: 10_000, completionMs: 600_000 },
+  },
+  // The offline mock app in mock-athena.ts, for testing the harness itself
+  mock: {
+    ...production,
+    baseUrl: "http://localhost:4010/",
+    credentials: {
+      usernameEnv: "ATHENA_MOCK_USERNAME",
+      passwordEnv: "ATHENA_MOCK_PASSWORD",
+    },
+    env: "LOCAL",
+    viewport: { width: 1280, height: 800 },
+    headless: true,
+    timeouts: { navigationMs: 15_000, domSettleMs: 5_000, completionMs: 60_000 },
+    mock: true,
+  },
+};
+
+export const DEFAULT_PROFILE = "production";
+
+const ProfileOverrideSchema = ProfileSchema.deepPartial();
+
+function readProfileOverrides(configPath: string): Record<string, unknown> {
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+  let config: { profiles?: Record<string, unknown> } | null;
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    throw new UsageError(`Config file ${configPath} is not valid JSON`, { cause: error });
+  }
+  return config?.profiles ?? {};
+}
+
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (
+    base &&
+    override &&
+    typeof base === "object" &&
+    typeof override === "object" &&
+    !Array.isArray(base)
+  ) {
+    const merged: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(override)) {
+      merged[key] = deepMerge(merged[key], value);
+    }
+    return merged;
+  }
+  return override === undefined ? base : override;
+}
+
+/**
+ * Resolve a profile by name, applying overrides from the config file
+ * @param name - Defaults to ATHENA_PROFILE, then "production"
+ * @param configPath - Config file that may hold a `profiles` section
+ */
+export function getProfile(
+  name = getEnvVar("ATHENA_PROFILE", false) || DEFAULT_PROFILE,
+  configPath = "athena-test.config.json"
+): Profile {
+  const overrides = readProfileOverrides(configPath);
+  const base = BUILT_IN_PROFILES[name];
+  if (!base && !(name in overrides)) {
+    throw new UsageError(
+      `Unknown profile "${name}", expected one of: ${[
+        ...new Set([...Object.keys(BUILT_IN_PROFILES), ...Object.keys(overrides)]),
+      ].join(", ")}`
+    );
+  }
+
+  const override = ProfileOverrideSchema.safeParse(overrides[name] ?? {});
+  if (!override.success) {
+    throw new UsageError(`Invalid profile "${name}": ${override.error.message}`);
+  }
+  const profile = ProfileSchema.safeParse(deepMerge(base ?? {}, override.data));
+  if (!profile.success) {
+    throw new UsageError(`Incomplete profile "${name}": ${profile.error.message}`);
+  }
+  return { ...profile.data, name };
+}
+
+/**
+ * Read the Athena credentials of a profile from the environment
+ */
+export function profileCredentials(profile: Profile): AthenaCredentials {
+  return {
+    username: getSecret(profile.credentials.usernameEnv)!,
+    password: getSecret(profile.credentials.passwordEnv)!,
+  };
+}
+
+/**
+ * Names of the secrets a browser run against a profile needs
+ */
+export function profileSecretNames(profile: Profile): string[] {
+  return [
+    profile.credentials.usernameEnv,
+    profile.credentials.passwordEnv,
+    ...(profile.mock
+      ? []
+      : [profile.modelName.startsWith("claude") ? "ANTHROPIC_API_KEY" : "OPENAI_API_KEY"]),
+    ...(profile.env === "BROWSERBASE"
+      ? ["BROWSERBASE_API_KEY", "BROWSERBASE_PROJECT_ID"]
+      : []),
+  ];
+}
+
+/**
+ * Fail fast, listing every secret a run against the profile is missing
+ */
+export function validateProfileSecrets(profile: Profile) {
+  validateSecrets(profileSecretNames(profile));
+}
+
+/**
+ * The `login()` options for a profile
+ */
+export function profileLoginOptions(profile: Profile, credentials = profileCredentials(profile)) {
+  return {
+    baseUrl: profile.baseUrl,
+    credentials,
+    navigationTimeoutMs: profile.timeouts.navigationMs,
+    sessionFile:
+      profile.reuseSession === false
+        ? undefined
+        : sessionStatePath(profile.name, credentials.username),
+  };
+}
@@ -0,0 +1,191 @@
+import type { BrowserContext, LocalBrowserLaunchOptions } from "@browserbasehq/stagehand";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+
+/**
+ * Opt-in Playwright trace and video recording of a run.
+ *
+ * Each is `never`, `always` or `on-failure` (recorded, but only kept if the
+ * run failed). Traces are recorded through the run's BrowserContext and
+ * can be replayed step by step with `npx playwright show-trace <trace.zip>`.
+ * Video needs the browser context to be created with it, so it is passed
+ * to Stagehand as a launch option and only works with a local browser;
+ * Browserbase sessions have their own recording linked from the session page.
+ *
+ * Traces hold DOM snapshots and network traffic, so tracing is paused while
+ * logging in (see `withoutTracing()`): the typed password and the login
+ * request stay out of it. Later requests still carry the session cookie and
+ * videos show the login form, so treat recordings as sensitive.
+ */
+
+export const RecordingModeSchema = z.enum(["never", "on-failure", "always"]);
+
+export type RecordingMode = z.infer<typeof RecordingModeSchema>;
+
+export interface RecordingOptions {
+  trace: RecordingMode;
+  video: RecordingMode;
+  dir: string; // Where the trace and videos are saved
+}
+
+export interface RecordingArtifacts {
+  trace?: string;
+  traceParts?: string[]; // What was traced before each login, oldest first
+  videos: string[];
+}
+
+/**
+ * Launch options that make a local browser record video
+ */
+export function recordingLaunchOptions({
+  video,
+  dir,
+}: RecordingOptions): Partial<LocalBrowserLaunchOptions> {
+  return video === "never" ? {} : { recordVideo: { dir: path.join(dir, "video") } };
+}
+
+export interface Recording {
+  /**
+   * Stop recording, close the browser through `close` (videos are only
+   * written once their page closes) and drop what the modes say not to keep
+   */
+  finish(args: { failed: boolean; close: () => Promise<void> }): Promise<RecordingArtifacts>;
+}
+
+function keep(mode: RecordingMode, failed: boolean) {
+  return mode === "always" || (mode === "on-failure" && failed);
+}
+
+type Tracing = BrowserContext["tracing"];
+
+interface TraceChunks {
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+}
+
+// Keyed by Tracing, which Stagehand's context proxy shares with page.context()
+const tracedContexts = new WeakMap<Tracing, TraceChunks>();
+
+/**
+ * Run `fn` with the trace of a context paused. What was traced so far is
+ * saved as a trace part, and tracing resumes in a new chunk afterwards.
+ * Runs `fn` as is when the context is not traced.
+ */
+export async function withoutTracing<T>(context: BrowserContext, fn: () => Promise<T>): Promise<T> {
+  const chunks = tracedContexts.get(context.tracing);
+  if (!chunks) {
+    return fn();
+  }
+  await chunks.pause();
+  try {
+    return await fn();
+  } finally {
+    await chunks.resume();
+  }
+}
+
+export async function startRecording(
+  context: BrowserContext,
+  options: RecordingOptions
+): Promise<Recording> {
+  let tracing = false;
+  let paused = false;
+  const traceParts: string[] = [];
+  if (options.trace !== "never") {
+    try {
+      await context.tracing.start({ screenshots: true, snapshots: true, sources: false });
+      await context.tracing.startChunk();
+      tracing = true;
+      tracedContexts.set(context.tracing, {
+        async pause() {
+          if (paused) {
+            return;
+          }
+          paused = true;
+          const part = path.join(options.dir, `trace-${traceParts.length + 1}.zip`);
+          try {
+            fs.mkdirSync(options.dir, { recursive: true });
+            await context.tracing.stopChunk({ path: part });
+            traceParts.push(part);
+          } catch (error) {
+            console.warn("Could not save a Playwright trace part:", error);
+          }
+        },
+        async resume() {
+          if (!paused) {
+            return;
+          }
+          paused = false;
+          await context.tracing
+            .startChunk()
+            .catch((error) => console.warn("Could not resume the Playwright trace:", error));
+        },
+      });
+    } catch (error) {
+      console.warn("Could not start a Playwright trace:", error);
+    }
+  }
+
+  return {
+    async finish({ failed, close }) {
+      const artifacts: RecordingArtifacts = { videos: [] };
+      if (tracing) {
+        tracedContexts.delete(context.tracing);
+        const tracePath = path.join(options.dir, "trace.zip");
+        try {
+          if (keep(options.trace, failed)) {
+            if (!paused) {
+              fs.mkdirSync(options.dir, { recursive: true });
+              await context.tracing.stopChunk({ path: tracePath });
+              artifacts.trace = tracePath;
+            }
+            if (traceParts.length) {
+              artifacts.traceParts = traceParts;
+            }
+          } else {
+            for (const part of traceParts) {
+              fs.rmSync(part, { force: true });
+            }
+          }
+          await context.tracing.stop();
+        } catch (error) {
+          console.warn("Could not save the Playwright trace:", error);
+        }
+      }
+
+      const videos =
+        options.video === "never"
+          ? []
+          : await Promise.all(
+              context.pages().map((page) => page.video()?.path().catch(() => undefined))
+            );
+      await close();
+
+      for (const video of videos) {
+        if (!video || !fs.existsSync(video)) {
+          continue;
+        }
+        if (keep(options.video, failed)) {
+          artifacts.videos.push(video);
+        } else {
+          fs.rmSync(video, { force: true });
+        }
+      }
+      if (options.video !== "never" && videos.every((video) => !video)) {
+        console.log("No video was recorded; video recording needs a local browser");
+      }
+
+      for (const part of artifacts.traceParts ?? []) {
+        console.log(`Trace before logging in: ${part}`);
+      }
+      if (artifacts.trace) {
+        console.log(`Trace: ${artifacts.trace} (npx playwright show-trace ${artifacts.trace})`);
+      }
+      for (const video of artifacts.videos) {
+        console.log(`Video: ${video}`);
+      }
+      return artifacts;
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import fs from "fs";
+import path from "path";
+import type { SuiteResult } from "./runner.js";
+import type { ScenarioResult, StepResult } from "./scenario.js";
+import { writeRedactedFile } from "./secrets.js";
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+type TestCase = Omit<StepResult, "type"> & { type: string };
+
+/**
+ * The steps of a scenario, plus a failed "setup" case when the scenario
+ * failed outside its steps, e.g. the browser session did not start, so CI
+ * does not count it as 0 tests and 0 failures
+ */
+function testCases(scenario: ScenarioResult): TestCase[] {
+  if (scenario.status !== "failed" || scenario.steps.some((s) => s.status === "failed")) {
+    return scenario.steps;
+  }
+  const setup: TestCase = {
+    name: "setup",
+    type: "setup",
+    status: "failed",
+    startedAt: scenario.startedAt,
+    durationMs: scenario.steps.length ? 0 : scenario.durationMs,
+    error: scenario.error || "Scenario failed",
+    failureBundle: scenario.failureBundle,
+  };
+  return [setup, ...scenario.steps];
+}
+
+/**
+ * Render a suite result as JUnit XML. Each scenario becomes a `<testsuite>`
+ * and each of its steps a `<testcase>`, so CI dashboards track step timings.
+ */
+export function toJUnitXml(suite: SuiteResult): string {
+  const steps = suite.cases.flatMap(testCases);
+  const totalFailures = steps.filter((s) => s.status === "failed").length;
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="${escapeXml(suite.name)}" tests="${steps.length}" failures="${totalFailures}" time="${seconds(suite.durationMs)}">`,
+  ];
+
+  for (const scenario of suite.cases) {
+    const cases = testCases(scenario);
+    const failures = cases.filter((s) => s.status === "failed").length;
+    const skipped = cases.filter((s) => s.status === "skipped").length;
+    lines.push(
+      `  <testsuite name="${escapeXml(scenario.name)}" tests="${cases.length}" failures="${failures}" skipped="${skipped}" timestamp="${scenario.startedAt}" time="${seconds(scenario.durationMs)}">`
+    );
+    for (const step of cases) {
+      const open = `    <testcase classname="${escapeXml(scenario.name)}" name="${escapeXml(step.name)}" time="${seconds(step.durationMs)}"`;
+      if (step.status === "passed") {
+        lines.push(`${open}/>`);
+      } else if (step.status === "skipped") {
+        lines.push(`${open}>`, `      <skipped/>`, `    </testcase>`);
+      } else {
+        lines.push(
+          `${open}>`,
+          `      <failure message="${escapeXml(step.error || "Step failed")}" type="${step.type}"/>`,
+          // Jenkins and GitLab pick up attachments in this format
+          ...(step.failureBundle
+            ? [
+                `      <system-out>Failure bundle: ${escapeXml(step.failureBundle)}`,
+                `[[ATTACHMENT|${escapeXml(path.resolve(step.failureBundle, "screenshot.png"))}]]`,
+                ...(step.visual?.diff
+                  ? [`[[ATTACHMENT|${escapeXml(path.resolve(step.visual.diff))}]]`]
+                  : []),
+                `</system-out>`,
+              ]
+            : []),
+          `    </testcase>`
+        );
+      }
+    }
+    lines.push(`  </testsuite>`);
+  }
+
+  lines.push(`</testsuites>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Write `<name>.json` and `<name>.xml` reports for a suite into a directory
+ * @returns The paths of the written reports
+ */
+export function writeReports(suite: SuiteResult, reportsDir: string) {
+  fs.mkdirSync(reportsDir, { recursive: true });
+  const base = suite.name.replace(/[^a-z0-9-_]+/gi, "-");
+  const jsonPath = path.join(reportsDir, `${base}.json`);
+  const junitPath = path.join(reportsDir, `${base}.xml`);
+  writeRedactedFile(jsonPath, JSON.stringify(suite, null, 2));
+  writeRedactedFile(junitPath, toJUnitXml(suite));
+  return { jsonPath, junitPath };
+}
@@ -0,0 +1,255 @@
+import type {
+  ActOptions,
+  ActResult,
+  ExtractOptions,
+  ExtractResult,
+  ObserveResult,
+  Page,
+} from "@browserbasehq/stagehand";
+import { z } from "zod";
+import { AthenaTestError, InfraError } from "./errors.js";
+import { logger } from "./logger.js";
+
+/**
+ * One retry policy for everything that talks to a flaky browser session or
+ * model: navigation, screenshots, `act`, `observe` and `extract`, and the
+ * scenario steps built on them.
+ *
+ * A policy sets the number of attempts, the wait between them (exponential
+ * backoff with jitter, so parallel workers do not retry in lockstep), an
+ * optional timeout per attempt, which errors are worth retrying and an
+ * optional recovery hook that runs before the next attempt, e.g. reloading
+ * the page. Every failed attempt is logged, and callers can collect the
+ * attempt history, e.g. for the step results of a report.
+ */
+
+export const RetryPolicySchema = z.object({
+  attempts: z.number().int().positive() /* Including the first one */,
+  backoffMs: z.number().int().nonnegative() /* Wait after the first failed attempt */,
+  factor: z.number().min(1) /* Multiplies the wait after every further attempt */,
+  maxBackoffMs: z.number().int().nonnegative(),
+  jitter: z.number().min(0).max(1) /* Randomizes each wait by up to ± this fraction */,
+  timeoutMs: z.number().int().positive().optional() /* Per attempt */,
+});
+
+export type RetryPolicySettings = z.infer<typeof RetryPolicySchema>;
+
+export interface RetryPolicy extends RetryPolicySettings {
+  /** Whether an error is worth another attempt, see `isRetryable()` */
+  retryable?: (error: unknown) => boolean;
+  /** Runs before the next attempt, e.g. to reload the page */
+  recover?: (error: unknown, attempt: number) => Promise<void>;
+}
+
+export const RETRY_POLICIES = {
+  // A single attempt, for steps that wait or assert with their own timeout
+  none: { attempts: 1, backoffMs: 0, factor: 1, maxBackoffMs: 0, jitter: 0 },
+  navigation: { attempts: 3, backoffMs: 5000, factor: 1.5, maxBackoffMs: 20000, jitter: 0.2 },
+  screenshot: { attempts: 3, backoffMs: 5000, factor: 1, maxBackoffMs: 5000, jitter: 0.2 },
+  // act, observe and extract: model calls and element lookups
+  stagehand: {
+    attempts: 3,
+    backoffMs: 2000,
+    factor: 2,
+    maxBackoffMs: 15000,
+    jitter: 0.3,
+    timeoutMs: 120000,
+  },
+} satisfies Record<string, RetryPolicy>;
+
+export interface AttemptRecord {
+  attempt: number;
+  startedAt: string;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * An attempt did not finish within the policy's `timeoutMs`
+ */
+export class AttemptTimeoutError extends InfraError {}
+
+/**
+ * Default retry classifier: our own errors are only retried when they are
+ * infrastructure trouble, since a failed login or agent run will not pass on
+ * a second try, and nothing is retried once the page is gone.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof AthenaTestError) {
+    return error.kind === "infra";
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return !/Target (page, context or browser|closed)|has been closed/i.test(message);
+}
+
+function backoff(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(
+    policy.maxBackoffMs,
+    policy.backoffMs * policy.factor ** (attempt - 1)
+  );
+  return Math.round(delay * (1 + policy.jitter * (Math.random() * 2 - 1)));
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined, label: string) {
+  if (!timeoutMs) {
+    return promise;
+  }
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new AttemptTimeoutError(`${label} timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    );
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run `fn` until it succeeds or the policy gives up, then rethrow the last
+ * error. A timed-out attempt cannot be cancelled, so the next one only starts
+ * once it has settled; if it has not within another `timeoutMs`, the policy
+ * gives up rather than run `fn` twice at the same time.
+ * @param label - Names the operation in log messages, e.g. "Navigation"
+ * @param fn - Gets the attempt number, starting at 1
+ * @param history - Collects a record of every attempt
+ */
+export async function withRetry<T>(
+  label: string,
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = RETRY_POLICIES.none,
+  history: AttemptRecord[] = []
+): Promise<T> {
+  const retryable = policy.retryable ?? isRetryable;
+  for (let attempt = 1; ; attempt++) {
+    const start = Date.now();
+    const record: AttemptRecord = {
+      attempt,
+      startedAt: new Date(start).toISOString(),
+      durationMs: 0,
+    };
+    history.push(record);
+    const pending = fn(attempt);
+    try {
+      const result = await withTimeout(pending, policy.timeoutMs, label);
+      record.durationMs = Date.now() - start;
+      if (attempt > 1) {
+        logger.info(`${label} succeeded on attempt ${attempt}/${policy.attempts}`, { attempt });
+      }
+      return result;
+    } catch (error) {
+      record.durationMs = Date.now() - start;
+      record.error = error instanceof Error ? error.message : String(error);
+      if (attempt >= policy.attempts || !retryable(error)) {
+        if (policy.attempts > 1) {
+          logger.error(`${label} failed after ${attempt} attempt${attempt === 1 ? "" : "s"}`, {
+            attempts: history,
+          });
+        }
+        throw error;
+      }
+      const waitMs = backoff(policy, attempt);
+      logger.warn(
+        `${label} failed (attempt ${attempt}/${policy.attempts}): ${record.error}; retrying in ${waitMs}ms`,
+        { attempt, durationMs: record.durationMs }
+      );
+      if (error instanceof AttemptTimeoutError) {
+        logger.warn(`Waiting for the timed-out attempt of ${label} to finish before retrying`);
+        const finished = pending.then(
+          () => true,
+          () => true
+        );
+        const settled = await withTimeout(finished, policy.timeoutMs, label).catch(() => false);
+        if (!settled) {
+          logger.error(`${label} is still running after timing out; not retrying`, {
+            attempts: history,
+          });
+          throw error;
+        }
+      }
+      await sleep(waitMs);
+      if (policy.recover) {
+        try {
+          await policy.recover(error, attempt);
+        } catch (recoverError) {
+          logger.warn(`Recovery before retrying ${label} failed: ${recoverError}`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * What `page.act()` accepts, one overload each
+ */
+export type ActArgument = string | ActOptions | ObserveResult;
+
+// `Page` declares `act()` once per argument type; as a method it also
+// satisfies this signature, which takes their union
+interface Actor {
+  act(argument: ActArgument): Promise<ActResult>;
+}
+
+/**
+ * `page.act()` with retries; an action Stagehand reports as unsuccessful
+ * counts as a failed attempt
+ */
+export async function actWithRetry(
+  page: Page,
+  action: ActArgument,
+  policy: RetryPolicy = RETRY_POLICIES.stagehand
+): Promise<ActResult> {
+  const description =
+    typeof action === "string" ? action : "action" in action ? action.action : action.description;
+  const actor: Actor = page;
+  return withRetry(
+    `act "${description}"`,
+    async () => {
+      const result = await actor.act(action);
+      if (!result.success) {
+        throw new Error(`act "${description}" did not succeed: ${result.message}`);
+      }
+      return result;
+    },
+    policy
+  );
+}
+
+/**
+ * `page.observe()` with retries; finding no element counts as a failed attempt
+ */
+export async function observeWithRetry(
+  page: Page,
+  instruction: string,
+  policy: RetryPolicy = RETRY_POLICIES.stagehand
+): Promise<ObserveResult[]> {
+  return withRetry(
+    `observe "${instruction}"`,
+    async () => {
+      const results = await page.observe(instruction);
+      if (results.length === 0) {
+        throw new Error(`Could not find an element for "${instruction}"`);
+      }
+      return results;
+    },
+    policy
+  );
+}
+
+/**
+ * `page.extract()` with retries
+ */
+export async function extractWithRetry<T extends z.AnyZodObject>(
+  page: Page,
+  options: ExtractOptions<T>,
+  policy: RetryPolicy = RETRY_POLICIES.stagehand
+): Promise<ExtractResult<T>> {
+  return withRetry(`extract "${options.instruction}"`, () => page.extract(options), policy);
+}
@@ -0,0 +1,110 @@
+import { Page, BrowserContext, Stagehand } from "@browserbasehq/stagehand";
+import fs from "fs";
+import path from "path";
+import { UsageError } from "./errors.js";
+import type { PageErrorPolicy } from "./page-errors.js";
+import type { Profile } from "./profiles.js";
+import type { RecordingArtifacts } from "./recording.js";
+import { loadScenario, runScenario, Scenario, ScenarioResult } from "./scenario.js";
+import type { VisualSettings } from "./visual.js";
+
+/**
+ * A suite is a named list of test cases, each of which is a scenario file.
+ * Cases run one after the other on the same Stagehand session; cookies are
+ * cleared in between so every case starts logged out. Only the first case
+ * restores a saved session (see session.ts): what a restore adds to the
+ * shared browser context cannot be removed, so later cases log in with the
+ * form.
+ */
+
+export interface SuiteResult {
+  name: string;
+  startedAt: string;
+  durationMs: number;
+  passed: number;
+  failed: number;
+  cases: ScenarioResult[];
+  recording?: RecordingArtifacts; // Trace and video of a single-session run
+}
+
+/**
+ * Expand a list of scenario files and directories into scenario file paths.
+ * Directories contribute every `.yaml`, `.yml` and `.json` file they contain.
+ */
+export function resolveScenarioFiles(inputs: string[]): string[] {
+  return inputs.flatMap((input) => {
+    if (!fs.existsSync(input)) {
+      throw new UsageError(`${input} does not exist`);
+    }
+    if (!fs.statSync(input).isDirectory()) {
+      return [input];
+    }
+    return fs
+      .readdirSync(input)
+      .filter((file) => /\.(ya?ml|json)$/.test(file))
+      .sort()
+      .map((file) => path.join(input, file));
+  });
+}
+
+export async function runSuite({
+  page,
+  context,
+  stagehand,
+  profile,
+  name,
+  scenarios,
+  screenshotsDir,
+  failuresDir,
+  visual,
+  pageErrorPolicy,
+}: {
+  page: Page; // Playwright Page with act, extract, and observe methods
+  context: BrowserContext; // Playwright BrowserContext
+  stagehand: Stagehand; // Stagehand instance
+  profile: Profile; // Athena deployment to run against
+  name: string;
+  scenarios: Scenario[];
+  screenshotsDir?: string;
+  failuresDir?: string;
+  visual?: VisualSettings; // Baselines for compareScreenshot steps
+  pageErrorPolicy?: PageErrorPolicy; // What console and page errors do to a scenario
+}): Promise<SuiteResult> {
+  const suiteStart = Date.now();
+  const cases: ScenarioResult[] = [];
+
+  for (const [index, scenario] of scenarios.entries()) {
+    await context.clearCookies();
+    cases.push(
+      await runScenario({
+        page,
+        context,
+        stagehand,
+        profile: index === 0 ? profile : { ...profile, reuseSession: false },
+        scenario,
+        screenshotsDir,
+        failuresDir,
+        visual,
+        pageErrorPolicy,
+      })
+    );
+  }
+
+  const failed = cases.filter((result) => result.status === "failed").length;
+  return {
+    name,
+    startedAt: new Date(suiteStart).toISOString(),
+    durationMs: Date.now() - suiteStart,
+    passed: cases.length - failed,
+    failed,
+    cases,
+  };
+}
+
+/**
+ * Load every scenario up front so that a typo in one file fails the run
+ * before any browser time is spent
+ */
+export function loadSuite(inputs: string[], secretNames: string[] = []): Scenario[] {
+  return resolveScenarioFiles(inputs).map((filePath) => loadScenario(filePath, secretNames));
+}
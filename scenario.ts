@@ -0,0 +1,895 @@
+import { Page, BrowserContext, Stagehand } from "@browserbasehq/stagehand";
+import type { Locator } from "@playwright/test";
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { z } from "zod";
+import {
+  login,
+  openLibraryItem,
+  openSpaces,
+  selectAgent,
+  sendPrompt,
+} from "./athena.js";
+import {
+  AnswerCheck,
+  AnswerExpectationsSchema,
+  AnswerMismatchError,
+  checkAnswer,
+  extractAnswer,
+} from "./answer.js";
+import {
+  AccessibilityAudit,
+  AccessibilityCheckSchema,
+  AccessibilityError,
+  checkAccessibility,
+  formatAccessibilityAudit,
+} from "./accessibility.js";
+import { ActionCache, actWithCache, CacheStats, formatCacheStats } from "./cache.js";
+import { waitForCompletion } from "./completion.js";
+import { captureFailureBundle, DEFAULT_FAILURES_DIR } from "./forensics.js";
+import { log, withLogContext } from "./logger.js";
+import { MetricsRecorder, RunMetrics } from "./metrics.js";
+import {
+  API_PROBLEMS,
+  ApiCheckError,
+  describeApiCall,
+  NetworkRecorder,
+  NetworkReport,
+  NetworkSettingsSchema,
+} from "./network.js";
+import {
+  formatPageError,
+  PageErrorCheckSchema,
+  PageErrorEntry,
+  PageErrorPolicy,
+  PageErrorRecorder,
+  PageErrorsError,
+} from "./page-errors.js";
+import type { RecordingArtifacts } from "./recording.js";
+import {
+  ELEMENT_NAMES,
+  findElement,
+  LocatorRecord,
+  locatorReport,
+  primarySelector,
+  resetLocatorReport,
+  waitForElementHidden,
+} from "./locators.js";
+import { AgentError, FailureKind, failureKind, UsageError } from "./errors.js";
+import { Profile, profileCredentials, profileLoginOptions } from "./profiles.js";
+import {
+  actWithRetry,
+  AttemptRecord,
+  RETRY_POLICIES,
+  RetryPolicy,
+  RetryPolicySchema,
+  withRetry,
+} from "./retry.js";
+import { getSecret, lookupVariable } from "./secrets.js";
+import { validateZodSchema } from "./utils.js";
+import {
+  checkScreenshot,
+  DEFAULT_BASELINES_DIR,
+  VisualCheckSchema,
+  VisualComparison,
+  VisualMismatchError,
+  VisualSettings,
+} from "./visual.js";
+
+/**
+ * Scenario files describe an Athena test as a list of declarative steps so
+ * that new flows can be written in YAML or JSON instead of TypeScript.
+ *
+ * ```yaml
+ * name: Log in to Athena
+ * baseUrl: https://app.athenaintel.com
+ * steps:
+ *   - type: goto
+ *     url: /
+ *   - type: waitForSelector
+ *     selector: input[autocomplete="email"]
+ *   - type: act
+ *     action: fill in the form with %username% and %password% and click the log in button
+ *     variables:
+ *       username: ${ATHENA_USERNAME}
+ *       password: ${ATHENA_PASSWORD}
+ * ```
+ *
+ * Any `${NAME}` inside a string value is replaced with the matching
+ * environment variable when the scenario is loaded.
+ *
+ * Each step is retried according to a policy from retry.ts that depends on
+ * its type (navigation, screenshots and Stagehand calls are retried; waits
+ * and assertions are not); `retry` overrides parts of it per step:
+ *
+ * ```yaml
+ *   - type: act
+ *     action: Click Spaces
+ *     retry: { attempts: 5, timeoutMs: 60000 }
+ * ```
+ *
+ * A `network` section (see network.ts) records the scenario's API calls and
+ * can stub endpoints; `checkApi` steps fail on the calls it flagged.
+ * Console and page errors of the app are collected per step and fail or
+ * warn according to the run's policy, which `pageErrors` can override
+ * (see page-errors.ts).
+ */
+
+const stepBase = {
+  name: z.string().optional() /* Label used in logs */,
+  retry: RetryPolicySchema.partial().optional() /* Overrides the step type's retry policy */,
+};
+
+const GotoStep = z.object({
+  ...stepBase,
+  type: z.literal("goto"),
+  url: z.string(),
+  timeout: z.number().int().positive().default(60_000),
+  retries: z.number().int().positive().default(3) /* Attempts, same as `retry.attempts` */,
+  waitUntil: z
+    .enum(["load", "domcontentloaded", "networkidle", "commit"])
+    .optional(),
+});
+
+const ActStep = z.object({
+  ...stepBase,
+  type: z.literal("act"),
+  action: z.string(),
+  variables: z.record(z.string()).optional(),
+});
+
+const ActWithCacheStep = z.object({
+  ...stepBase,
+  type: z.literal("actWithCache"),
+  instruction: z.string(),
+});
+
+const WaitForSelectorStep = z.object({
+  ...stepBase,
+  type: z.literal("waitForSelector"),
+  selector: z.string().optional(),
+  element: z.enum(ELEMENT_NAMES).optional() /* A self-healing locator from locators.ts */,
+  state: z.enum(["attached", "detached", "visible", "hidden"]).default("visible"),
+  timeout: z.number().int().positive().optional(),
+});
+
+const WaitForLoadStateStep = z.object({
+  ...stepBase,
+  type: z.literal("waitForLoadState"),
+  state: z.enum(["load", "domcontentloaded", "networkidle"]).default("networkidle"),
+  timeout: z.number().int().positive().optional(),
+});
+
+const WaitStep = z.object({
+  ...stepBase,
+  type: z.literal("wait"),
+  ms: z.number().int().nonnegative(),
+});
+
+const WaitForCompletionStep = z.object({
+  ...stepBase,
+  type: z.literal("waitForCompletion"),
+  timeout: z.number().int().positive().optional() /* Defaults to the profile's completion timeout */,
+  quietMs: z.number().int().positive().optional(),
+  failOn: z
+    .array(z.enum(["error", "timeout"]))
+    .default(["error", "timeout"]) /* Outcomes that fail the step */,
+});
+
+// Steps backed by the page objects in athena.ts
+
+const LoginStep = z.object({
+  ...stepBase,
+  type: z.literal("login"),
+  username: z.string().optional() /* Defaults to ATHENA_USERNAME */,
+  password: z.string().optional() /* Defaults to ATHENA_PASSWORD */,
+});
+
+const OpenSpacesStep = z.object({
+  ...stepBase,
+  type: z.literal("openSpaces"),
+});
+
+const SelectAgentStep = z.object({
+  ...stepBase,
+  type: z.literal("selectAgent"),
+  agent: z.string(),
+});
+
+const SendPromptStep = z.object({
+  ...stepBase,
+  type: z.literal("sendPrompt"),
+  text: z.string(),
+});
+
+const OpenLibraryItemStep = z.object({
+  ...stepBase,
+  type: z.literal("openLibraryItem"),
+  title: z.string(),
+});
+
+const ScreenshotStep = z.object({
+  ...stepBase,
+  type: z.literal("screenshot"),
+  path: z.string() /* Relative to the screenshots directory */,
+  fullPage: z.boolean().default(true),
+});
+
+const CompareScreenshotStep = VisualCheckSchema.extend({
+  ...stepBase,
+  type: z.literal("compareScreenshot"),
+  baseline: z.string() /* Names the baseline image within the scenario, see visual.ts */,
+});
+
+const CheckAccessibilityStep = AccessibilityCheckSchema.extend({
+  ...stepBase,
+  type: z.literal("checkAccessibility"),
+  baseline: z
+    .string()
+    .optional() /* Names the approved violations within the scenario, see accessibility.ts */,
+});
+
+const CheckApiStep = z.object({
+  ...stepBase,
+  type: z.literal("checkApi"),
+  url: z.string().optional() /* Only check calls whose URL matches this glob */,
+  failOn: z.array(z.enum(API_PROBLEMS)).default(["status", "contract"]),
+  minCalls: z.number().int().nonnegative().optional() /* Calls that must have been made */,
+});
+
+const ExtractFieldType = z.enum(["string", "number", "boolean", "string[]"]);
+
+const ExtractStep = z.object({
+  ...stepBase,
+  type: z.literal("extract"),
+  instruction: z.string(),
+  schema: z.record(ExtractFieldType),
+  useTextExtract: z.boolean().default(true),
+  saveAs: z.string().optional() /* Key later `assert` steps can refer to */,
+});
+
+const ExtractAnswerStep = AnswerExpectationsSchema.extend({
+  ...stepBase,
+  type: z.literal("extractAnswer"),
+  saveAs: z.string().default("answer") /* Key later `assert` steps can refer to */,
+});
+
+const AssertStep = z.object({
+  ...stepBase,
+  type: z.literal("assert"),
+  selector: z.string().optional(),
+  element: z.enum(ELEMENT_NAMES).optional() /* A self-healing locator from locators.ts */,
+  visible: z.boolean().optional(),
+  textContains: z.string().optional(),
+  extracted: z.string().optional(),
+  equals: z.unknown().optional(),
+  contains: z.string().optional(),
+  matches: z.record(ExtractFieldType).optional() /* Schema the value must satisfy */,
+  timeout: z.number().int().positive().default(10_000),
+});
+
+export const ScenarioStepSchema = z
+  .discriminatedUnion("type", [
+    GotoStep,
+    ActStep,
+    ActWithCacheStep,
+    WaitForSelectorStep,
+    WaitForLoadStateStep,
+    WaitStep,
+    WaitForCompletionStep,
+    LoginStep,
+    OpenSpacesStep,
+    SelectAgentStep,
+    SendPromptStep,
+    OpenLibraryItemStep,
+    ScreenshotStep,
+    CompareScreenshotStep,
+    CheckAccessibilityStep,
+    CheckApiStep,
+    ExtractStep,
+    ExtractAnswerStep,
+    AssertStep,
+  ])
+  .superRefine((step, ctx) => {
+    if (
+      step.type === "assert" &&
+      [step.selector, step.element, step.extracted].filter(Boolean).length !== 1
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "assert needs exactly one of `selector`, `element` or `extracted`",
+      });
+    }
+    if (step.type === "waitForSelector" && Boolean(step.selector) === Boolean(step.element)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "waitForSelector needs exactly one of `selector` or `element`",
+      });
+    }
+  });
+
+export const ScenarioSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  baseUrl: z.string().url().optional() /* Overrides the profile's base URL */,
+  viewport: z
+    .object({ width: z.number().int(), height: z.number().int() })
+    .optional(),
+  network: NetworkSettingsSchema.optional() /* Record and check API calls, see network.ts */,
+  pageErrors: PageErrorCheckSchema.optional() /* Policy and allowlist, see page-errors.ts */,
+  steps: z.array(ScenarioStepSchema).min(1),
+});
+
+export type ScenarioStep = z.infer<typeof ScenarioStepSchema>;
+export type Scenario = z.infer<typeof ScenarioSchema>;
+
+/**
+ * Replace `${NAME}` placeholders in every string of a parsed scenario with
+ * the value of the matching variable from the secret providers. Only the
+ * values of `secretNames` are registered for redaction; agent names, URLs
+ * and prompts stay readable in logs and reports.
+ */
+function interpolateEnv(value: unknown, secretNames: ReadonlySet<string>): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$\{([A-Z0-9_]+)\}/gi, (_, name: string) => {
+      const variable = secretNames.has(name) ? getSecret(name, false) : lookupVariable(name);
+      if (variable === undefined) {
+        throw new UsageError(`${name} not found in environment variables or secret providers`);
+      }
+      return variable;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolateEnv(item, secretNames));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, interpolateEnv(v, secretNames)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Parse and validate scenario source text
+ * @param source - The YAML or JSON text of the scenario
+ * @param origin - Where the text came from, used in error messages
+ * @param secretNames - Variables whose values are masked in logs and
+ *   reports, e.g. `profileSecretNames(profile)`
+ * @returns The validated scenario
+ */
+export function parseScenario(
+  source: string,
+  origin = "scenario",
+  secretNames: string[] = []
+): Scenario {
+  // YAML is a superset of JSON, so one parser covers both formats
+  const raw = YAML.parse(source);
+  const result = ScenarioSchema.safeParse(interpolateEnv(raw, new Set(secretNames)));
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "<root>"}: ${issue.message}`)
+      .join("\n");
+    throw new UsageError(`Invalid scenario ${origin}:\n${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load a scenario from a `.yaml`, `.yml` or `.json` file
+ * @param filePath - Path to the scenario file
+ * @param secretNames - See `parseScenario()`
+ * @returns The validated scenario
+ */
+export function loadScenario(filePath: string, secretNames: string[] = []): Scenario {
+  const source = fs.readFileSync(filePath, "utf8");
+  return parseScenario(source, filePath, secretNames);
+}
+
+const extractFieldSchemas: Record<z.infer<typeof ExtractFieldType>, z.ZodTypeAny> = {
+  string: z.string(),
+  number: z.number(),
+  boolean: z.boolean(),
+  "string[]": z.array(z.string()),
+};
+
+function buildExtractSchema(fields: Record<string, z.infer<typeof ExtractFieldType>>) {
+  return z.object(
+    Object.fromEntries(
+      Object.entries(fields).map(([key, type]) => [key, extractFieldSchemas[type]])
+    )
+  );
+}
+
+function describeStep(step: ScenarioStep, index: number): string {
+  return step.name || `#${index + 1} ${step.type}`;
+}
+
+/**
+ * The retry policy of a step: its type's default with the step's overrides.
+ * Page object steps retry the actions inside them, so they run once.
+ */
+function stepRetryPolicy(step: ScenarioStep): RetryPolicy {
+  let policy: RetryPolicy;
+  switch (step.type) {
+    case "goto":
+      policy = { ...RETRY_POLICIES.navigation, attempts: step.retries };
+      break;
+    case "act":
+    case "actWithCache":
+    case "extract":
+      policy = RETRY_POLICIES.stagehand;
+      break;
+    case "screenshot":
+      policy = RETRY_POLICIES.screenshot;
+      break;
+    default:
+      policy = RETRY_POLICIES.none;
+  }
+  return { ...policy, ...step.retry };
+}
+
+/**
+ * What a step runs against, shared by all steps of a scenario run
+ */
+interface StepContext {
+  page: Page;
+  profile: Profile;
+  scenario: Scenario;
+  screenshotsDir: string;
+  extracted: Record<string, unknown>;
+  cache: ActionCache;
+  visual: VisualSettings;
+  timing: { promptSentAt?: number; completedAt?: number }; // Of the last prompt
+  metrics: MetricsRecorder;
+  network?: NetworkRecorder; // When the scenario checks its API calls
+}
+
+/**
+ * Run one step
+ * @param stepResult - Steps that produce more than pass or fail, like
+ *   visual comparisons, record it here
+ */
+async function executeStep(
+  step: ScenarioStep,
+  {
+    page,
+    profile,
+    scenario,
+    screenshotsDir,
+    extracted,
+    cache,
+    visual,
+    timing,
+    metrics,
+    network,
+  }: StepContext,
+  stepResult: StepResult
+) {
+  switch (step.type) {
+    case "goto": {
+      const url = new URL(step.url, scenario.baseUrl ?? profile.baseUrl).toString();
+      await page.goto(url, { timeout: step.timeout, waitUntil: step.waitUntil });
+      await metrics.recordPageLoad();
+      return;
+    }
+    case "act":
+      // The step itself is retried, see stepRetryPolicy()
+      await actWithRetry(
+        page,
+        { action: step.action, variables: step.variables },
+        RETRY_POLICIES.none
+      );
+      return;
+    case "actWithCache":
+      await actWithCache(page, step.instruction, cache);
+      return;
+    case "waitForSelector":
+      if (step.element && step.state === "visible") {
+        await findElement(page, step.element, { timeoutMs: step.timeout });
+      } else if (step.element && step.state === "hidden") {
+        await waitForElementHidden(page, step.element, { timeoutMs: step.timeout });
+      } else {
+        await page.waitForSelector(step.selector ?? primarySelector(step.element!), {
+          state: step.state,
+          timeout: step.timeout,
+        });
+      }
+      return;
+    case "waitForLoadState":
+      await page.waitForLoadState(step.state, { timeout: step.timeout });
+      return;
+    case "wait":
+      await page.waitForTimeout(step.ms);
+      return;
+    case "waitForCompletion": {
+      const completion = await waitForCompletion(page, {
+        timeoutMs: step.timeout ?? profile.timeouts.completionMs,
+        quietMs: step.quietMs,
+      });
+      timing.completedAt = Date.parse(completion.completedAt);
+      await metrics.promptCompleted(completion);
+      if (completion.outcome !== "completed" && step.failOn.includes(completion.outcome)) {
+        throw new AgentError(
+          `Agent run ended with ${completion.outcome}: ${completion.errorText || completion.reason}`
+        );
+      }
+      return;
+    }
+    case "login": {
+      const start = Date.now();
+      await login(page, {
+        ...profileLoginOptions(
+          profile,
+          step.username && step.password
+            ? { username: step.username, password: step.password }
+            : profileCredentials(profile)
+        ),
+        baseUrl: scenario.baseUrl ?? profile.baseUrl,
+      });
+      metrics.recordLogin(Date.now() - start);
+      await metrics.recordPageLoad();
+      return;
+    }
+    case "openSpaces":
+      await openSpaces(page);
+      await metrics.recordPageLoad();
+      return;
+    case "selectAgent":
+      await selectAgent(page, step.agent);
+      return;
+    case "sendPrompt":
+      timing.promptSentAt = Date.now();
+      timing.completedAt = undefined;
+      await metrics.promptSent(step.text);
+      await sendPrompt(page, step.text);
+      return;
+    case "openLibraryItem":
+      await openLibraryItem(page, step.title);
+      await metrics.recordPageLoad();
+      return;
+    case "screenshot": {
+      const screenshotPath = path.join(screenshotsDir, step.path);
+      fs.mkdirSync(path.dirname(screenshotPath), { recursive: true });
+      await page.screenshot({
+        path: screenshotPath,
+        fullPage: step.fullPage,
+        timeout: 60000,
+      });
+      console.log(`Screenshot taken: ${screenshotPath}`);
+      stepResult.screenshot = screenshotPath;
+      return;
+    }
+    case "compareScreenshot": {
+      const comparison = await checkScreenshot(page, {
+        scenario: scenario.name,
+        name: step.baseline,
+        check: step,
+        settings: visual,
+      });
+      stepResult.visual = comparison;
+      if (comparison.status === "missing" || comparison.status === "mismatched") {
+        throw new VisualMismatchError(
+          `Screenshot "${step.baseline}" ${
+            comparison.status === "missing" ? "has no baseline" : "does not match its baseline"
+          }: ${comparison.reason}. Diff: ${comparison.diff ?? "none"}, actual: ${comparison.actual}`,
+          comparison
+        );
+      }
+      return;
+    }
+    case "checkAccessibility": {
+      const audit = await checkAccessibility(page, {
+        scenario: scenario.name,
+        name: step.baseline,
+        check: step,
+        settings: visual,
+      });
+      stepResult.accessibility = audit;
+      console.log(formatAccessibilityAudit(audit));
+      if (audit.status === "failed") {
+        throw new AccessibilityError(
+          `Accessibility check of ${audit.scope} failed: ${audit.reason}${
+            audit.actual ? `. Violations: ${audit.actual}` : ""
+          }`,
+          audit
+        );
+      }
+      return;
+    }
+    case "checkApi": {
+      await network!.settle();
+      if (step.minCalls !== undefined) {
+        const calls = step.url ? network!.callsTo(step.url) : network!.calls;
+        if (calls.length < step.minCalls) {
+          const target = step.url ? ` to ${step.url}` : "";
+          throw new ApiCheckError(
+            `Expected at least ${step.minCalls} API calls${target}, saw ${calls.length}`,
+            calls
+          );
+        }
+      }
+      const flagged = network!.flaggedCalls(step.failOn, step.url);
+      if (flagged.length) {
+        throw new ApiCheckError(
+          `${flagged.length} API calls failed the checks:\n${flagged.map(describeApiCall).join("\n")}`,
+          flagged
+        );
+      }
+      return;
+    }
+    case "extract": {
+      const schema = buildExtractSchema(step.schema);
+      const result = await page.extract({
+        instruction: step.instruction,
+        schema,
+        useTextExtract: step.useTextExtract,
+      });
+      if (!validateZodSchema(schema, result)) {
+        throw new Error(`Extracted data does not match schema: ${JSON.stringify(result)}`);
+      }
+      console.log("Extracted:", result);
+      if (step.saveAs) {
+        extracted[step.saveAs] = result;
+      }
+      return;
+    }
+    case "extractAnswer": {
+      const answer = await extractAnswer(page);
+      const latencyMs = timing.promptSentAt
+        ? (timing.completedAt ?? Date.now()) - timing.promptSentAt
+        : undefined;
+      const check = checkAnswer(answer, step, latencyMs);
+      console.log("Answer:", answer);
+      extracted[step.saveAs] = answer;
+      stepResult.answer = check;
+      if (check.violations.length) {
+        throw new AnswerMismatchError(check);
+      }
+      return;
+    }
+    case "assert": {
+      if (step.selector || step.element) {
+        let locator: Locator | undefined;
+        if (step.element && step.visible === false) {
+          await waitForElementHidden(page, step.element, { timeoutMs: step.timeout });
+        } else if (step.element) {
+          locator = await findElement(page, step.element, { timeoutMs: step.timeout });
+        } else {
+          locator = page.locator(step.selector!).first();
+          await locator.waitFor({
+            state: step.visible === false ? "hidden" : "visible",
+            timeout: step.timeout,
+          });
+        }
+        if (locator && step.textContains !== undefined) {
+          const text = (await locator.textContent()) || "";
+          if (!text.includes(step.textContains)) {
+            throw new Error(
+              `Expected "${step.selector ?? step.element}" to contain "${step.textContains}", got "${text}"`
+            );
+          }
+        }
+        return;
+      }
+      const key = step.extracted!;
+      if (!(key in extracted)) {
+        throw new Error(`No extracted value saved as "${key}"`);
+      }
+      const actual = extracted[key];
+      if (step.equals !== undefined && JSON.stringify(actual) !== JSON.stringify(step.equals)) {
+        throw new Error(
+          `Expected extracted "${key}" to equal ${JSON.stringify(step.equals)}, got ${JSON.stringify(actual)}`
+        );
+      }
+      if (step.contains !== undefined && !JSON.stringify(actual).includes(step.contains)) {
+        throw new Error(
+          `Expected extracted "${key}" to contain "${step.contains}", got ${JSON.stringify(actual)}`
+        );
+      }
+      if (step.matches && !validateZodSchema(buildExtractSchema(step.matches), actual)) {
+        throw new Error(
+          `Expected extracted "${key}" to match ${JSON.stringify(step.matches)}, got ${JSON.stringify(actual)}`
+        );
+      }
+      return;
+    }
+  }
+}
+
+export type StepStatus = "passed" | "failed" | "skipped";
+
+export interface StepResult {
+  name: string;
+  type: ScenarioStep["type"];
+  status: StepStatus;
+  startedAt: string;
+  durationMs: number;
+  error?: string;
+  attempts?: AttemptRecord[]; // Every attempt of the step, see retry.ts
+  screenshot?: string; // Written by a screenshot step
+  visual?: VisualComparison; // Result of a compareScreenshot step
+  accessibility?: AccessibilityAudit; // Result of a checkAccessibility step
+  answer?: AnswerCheck; // Result of an extractAnswer step
+  failureBundle?: string; // Directory with the forensics of the failure
+  pageErrors?: PageErrorEntry[]; // Console and page errors while the step ran
+}
+
+export interface ScenarioResult {
+  name: string;
+  status: "passed" | "failed";
+  startedAt: string;
+  durationMs: number;
+  steps: StepResult[];
+  extracted: Record<string, unknown>; // Values saved by `extract` steps
+  cache: CacheStats; // Lookups of `actWithCache` steps
+  locators: LocatorRecord[]; // Which strategy found each self-healing locator
+  metrics?: RunMetrics; // Latency, page load and request metrics, see metrics.ts
+  network?: NetworkReport; // API calls, when the scenario checks them
+  error?: string;
+  failureKind?: FailureKind;
+  failureBundle?: string; // Directory with the forensics of the failed step
+  recording?: RecordingArtifacts; // Trace and video, when run on its own session
+}
+
+/**
+ * Execute the steps of a scenario in order against an initialized Stagehand
+ * page. The first failing step fails the scenario and the remaining steps
+ * are reported as skipped; step errors are recorded rather than thrown, with
+ * a failure bundle (see forensics.ts) for the failing step. Everything
+ * logged meanwhile is tagged with the scenario and step (see logger.ts).
+ */
+export async function runScenario(
+  args: Parameters<typeof runScenarioSteps>[0]
+): Promise<ScenarioResult> {
+  return withLogContext({ scenario: args.scenario.name }, () => runScenarioSteps(args));
+}
+
+async function runScenarioSteps({
+  page,
+  context: browserContext,
+  profile,
+  scenario,
+  screenshotsDir = path.join(process.cwd(), "screenshots"),
+  failuresDir = DEFAULT_FAILURES_DIR,
+  visual = { baselinesDir: DEFAULT_BASELINES_DIR, outputDir: "visual", update: false },
+  pageErrorPolicy = "warn",
+}: {
+  page: Page; // Playwright Page with act, extract, and observe methods
+  context: BrowserContext; // Playwright BrowserContext
+  stagehand: Stagehand; // Stagehand instance
+  profile: Profile; // Athena deployment to run against
+  scenario: Scenario;
+  screenshotsDir?: string;
+  failuresDir?: string; // Where failure bundles are written
+  visual?: VisualSettings; // Baselines for compareScreenshot steps
+  pageErrorPolicy?: PageErrorPolicy; // Unless the scenario sets its own
+}): Promise<ScenarioResult> {
+  console.log(`Running scenario "${scenario.name}" (${scenario.steps.length} steps)`);
+  const scenarioStart = Date.now();
+  const result: ScenarioResult = {
+    name: scenario.name,
+    status: "passed",
+    startedAt: new Date(scenarioStart).toISOString(),
+    durationMs: 0,
+    steps: [],
+    extracted: {},
+    cache: { hits: 0, misses: 0, stale: 0 },
+    locators: [],
+  };
+  resetLocatorReport(page);
+  const context: StepContext = {
+    page,
+    profile,
+    scenario,
+    screenshotsDir,
+    extracted: result.extracted,
+    cache: new ActionCache(),
+    visual,
+    timing: {},
+    metrics: new MetricsRecorder(page),
+    network:
+      scenario.network || scenario.steps.some((step) => step.type === "checkApi")
+        ? new NetworkRecorder(browserContext, scenario.network ?? NetworkSettingsSchema.parse({}))
+        : undefined,
+  };
+
+  if (scenario.viewport) {
+    await page.setViewportSize(scenario.viewport);
+  }
+  await context.network?.start();
+  const pageErrorsPolicy = scenario.pageErrors?.policy ?? pageErrorPolicy;
+  const pageErrors =
+    pageErrorsPolicy === "off"
+      ? undefined
+      : new PageErrorRecorder(page, scenario.pageErrors?.allow);
+  await pageErrors?.start();
+
+  for (const [index, step] of scenario.steps.entries()) {
+    const label = describeStep(step, index);
+    const stepStart = Date.now();
+    const stepResult: StepResult = {
+      name: label,
+      type: step.type,
+      status: "skipped",
+      startedAt: new Date(stepStart).toISOString(),
+      durationMs: 0,
+    };
+    result.steps.push(stepResult);
+    if (result.status === "failed") {
+      continue;
+    }
+
+    const takePageErrors = () => {
+      const errors = pageErrors?.take() ?? [];
+      if (errors.length) {
+        stepResult.pageErrors = [...(stepResult.pageErrors ?? []), ...errors];
+      }
+    };
+
+    await withLogContext({ step: label }, async () => {
+      console.log(`Step ${label}...`);
+      stepResult.attempts = [];
+      try {
+        await withRetry(
+          `Step ${label}`,
+          () => executeStep(step, context, stepResult),
+          stepRetryPolicy(step),
+          stepResult.attempts
+        );
+        takePageErrors();
+        if (stepResult.pageErrors && pageErrorsPolicy === "fail") {
+          throw new PageErrorsError(stepResult.pageErrors);
+        }
+        stepResult.status = "passed";
+      } catch (error) {
+        takePageErrors();
+        console.error(`Step ${label} failed:`, error);
+        stepResult.status = "failed";
+        stepResult.error = error instanceof Error ? error.message : String(error);
+        result.status = "failed";
+        result.error = `${label}: ${stepResult.error}`;
+        result.failureKind = failureKind(error);
+        result.failureBundle = stepResult.failureBundle = await captureFailureBundle(page, {
+          error,
+          label: scenario.name,
+          step: label,
+          failuresDir,
+        });
+      }
+      if (stepResult.status === "passed" && stepResult.pageErrors) {
+        const errors = stepResult.pageErrors;
+        log(
+          "warn",
+          `Step ${label} passed with ${errors.length} page errors:\n${errors
+            .map(formatPageError)
+            .join("\n")}`
+        );
+      }
+      stepResult.durationMs = Date.now() - stepStart;
+      const attempts = stepResult.attempts.length;
+      log(
+        stepResult.status === "passed" ? "info" : "error",
+        `Step ${label} ${stepResult.status}${attempts > 1 ? ` after ${attempts} attempts` : ""}`,
+        { durationMs: stepResult.durationMs }
+      );
+    });
+  }
+
+  result.durationMs = Date.now() - scenarioStart;
+  result.cache = { ...context.cache.stats };
+  result.locators = locatorReport(page);
+  result.metrics = context.metrics.finish();
+  result.network = await context.network?.finish();
+  pageErrors?.stop();
+  if (scenario.steps.some((step) => step.type === "actWithCache")) {
+    console.log(formatCacheStats(result.cache));
+  }
+  log(
+    result.status === "passed" ? "info" : "error",
+    `Scenario "${scenario.name}" ${result.status}`,
+    { durationMs: result.durationMs }
+  );
+  return result;
+}
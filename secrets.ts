@@ -0,0 +1,226 @@
+import { execSync } from "child_process";
+import dotenv from "dotenv";
+import fs from "fs";
+import { UsageError } from "./errors.js";
+
+/**
+ * Credentials and API keys, and keeping them out of logs and artifacts.
+ *
+ * Values are looked up through a chain of credential providers, first match
+ * wins:
+ *
+ * 1. The process environment
+ * 2. The `.env` file (or the file named by ATHENA_ENV_FILE)
+ * 3. A JSON file of `{ "NAME": "value" }` named by ATHENA_SECRETS_FILE,
+ *    e.g. a mounted CI secret
+ * 4. A helper command named by ATHENA_SECRETS_COMMAND, run with the variable
+ *    name as its only argument and expected to print the value, e.g.
+ *    `ATHENA_SECRETS_COMMAND="./scripts/secret.sh"` wrapping a password manager
+ *
+ * Every value read with `getSecret()` is remembered and masked by
+ * `redact()`, which log output (see logger.ts), reports and saved pages go
+ * through.
+ */
+
+export interface CredentialProvider {
+  name: string;
+  get(key: string): string | undefined;
+}
+
+export function envProvider(): CredentialProvider {
+  return { name: "environment", get: (key) => process.env[key] || undefined };
+}
+
+export function dotenvProvider(filePath = ".env"): CredentialProvider {
+  let values: Record<string, string> | undefined;
+  return {
+    name: filePath,
+    get(key) {
+      values ??= fs.existsSync(filePath) ? dotenv.parse(fs.readFileSync(filePath)) : {};
+      return values[key] || undefined;
+    },
+  };
+}
+
+export function fileProvider(filePath: string): CredentialProvider {
+  let values: Record<string, unknown> | undefined;
+  return {
+    name: filePath,
+    get(key) {
+      if (!values) {
+        if (!fs.existsSync(filePath)) {
+          throw new UsageError(`Secrets file ${filePath} not found`);
+        }
+        try {
+          values = JSON.parse(fs.readFileSync(filePath, "utf8"));
+        } catch (error) {
+          throw new UsageError(`Secrets file ${filePath} is not valid JSON`, { cause: error });
+        }
+      }
+      const value = values?.[key];
+      return typeof value === "string" && value ? value : undefined;
+    },
+  };
+}
+
+export function commandProvider(command: string): CredentialProvider {
+  const cache = new Map<string, string | undefined>();
+  return {
+    name: `command "${command}"`,
+    get(key) {
+      if (!/^[A-Z0-9_]+$/i.test(key)) {
+        return undefined;
+      }
+      if (!cache.has(key)) {
+        let value: string | undefined;
+        try {
+          value = execSync(`${command} ${key}`, {
+            encoding: "utf8",
+            stdio: ["ignore", "pipe", "ignore"],
+            timeout: 30000,
+          }).trim();
+        } catch {
+          // A non-zero exit means the helper does not know this secret
+          value = undefined;
+        }
+        cache.set(key, value || undefined);
+      }
+      return cache.get(key);
+    },
+  };
+}
+
+function defaultProviders(): CredentialProvider[] {
+  const providers = [envProvider(), dotenvProvider(process.env.ATHENA_ENV_FILE || ".env")];
+  if (process.env.ATHENA_SECRETS_FILE) {
+    providers.push(fileProvider(process.env.ATHENA_SECRETS_FILE));
+  }
+  if (process.env.ATHENA_SECRETS_COMMAND) {
+    providers.push(commandProvider(process.env.ATHENA_SECRETS_COMMAND));
+  }
+  return providers;
+}
+
+let providers: CredentialProvider[] | undefined;
+
+/**
+ * Replace the provider chain, e.g. to read secrets from a vault client
+ */
+export function setCredentialProviders(chain: CredentialProvider[]) {
+  providers = chain;
+}
+
+/**
+ * Look a variable up through the provider chain
+ */
+export function lookupVariable(name: string): string | undefined {
+  providers ??= defaultProviders();
+  for (const provider of providers) {
+    const value = provider.get(name);
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+const secrets = new Set<string>();
+
+/**
+ * Mask a value in everything that goes through `redact()` from now on
+ */
+export function registerSecret(value: string | undefined) {
+  // Very short values would mask unrelated text
+  if (value && value.length >= 4) {
+    secrets.add(value);
+  }
+}
+
+/**
+ * Get a credential or API key through the provider chain and register it
+ * for redaction
+ */
+export function getSecret(name: string, required = true): string | undefined {
+  const value = lookupVariable(name);
+  if (!value && required) {
+    throw new UsageError(`${name} not found in environment variables or secret providers`);
+  }
+  registerSecret(value);
+  return value;
+}
+
+/**
+ * Check up front that every secret a run needs is available, so a missing
+ * password fails before any browser session is started
+ */
+export function validateSecrets(names: string[]) {
+  const missing = [...new Set(names)].filter((name) => !getSecret(name, false));
+  if (missing.length > 0) {
+    throw new UsageError(
+      `Missing secrets: ${missing.join(", ")}. Set them in the environment or .env, ` +
+        `or provide them through ATHENA_SECRETS_FILE or ATHENA_SECRETS_COMMAND`
+    );
+  }
+}
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Token formats that are masked even when they were never registered
+ */
+const SECRET_PATTERNS: RegExp[] = [
+  /\bsk-(?:ant-)?[A-Za-z0-9_-]{16,}/g, // Anthropic and OpenAI API keys
+  /\bbb_live_[A-Za-z0-9_-]{8,}/g, // Browserbase API keys
+  /\b(Bearer\s+)[A-Za-z0-9._~+/-]{16,}=*/gi,
+  /("?(?:password|passwd|secret|token|api[_-]?key)"?\s*[:=]\s*"?)[^\s",}&]+/gi,
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Mask registered secrets and anything that looks like a credential
+ */
+export function redact(text: string): string {
+  let result = text;
+  // Longest first so a secret that contains another is masked whole
+  for (const secret of [...secrets].sort((a, b) => b.length - a.length)) {
+    result = result.replace(new RegExp(escapeRegExp(secret), "g"), REDACTED);
+    const encoded = encodeURIComponent(secret);
+    if (encoded !== secret) {
+      result = result.replace(new RegExp(escapeRegExp(encoded), "g"), REDACTED);
+    }
+  }
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, (match, prefix?: string) =>
+      typeof prefix === "string" ? `${prefix}${REDACTED}` : REDACTED
+    );
+  }
+  return result;
+}
+
+/**
+ * Redact every string inside a value, e.g. before it is serialized
+ */
+export function redactValue<T>(value: T): T {
+  if (typeof value === "string") {
+    return redact(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactValue) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, redactValue(v)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Write a text artifact (report, JSON, HTML) with secrets masked
+ */
+export function writeRedactedFile(filePath: string, content: string) {
+  fs.writeFileSync(filePath, redact(content), "utf8");
+}
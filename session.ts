@@ -0,0 +1,159 @@
+import { Page } from "@browserbasehq/stagehand";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { primarySelector } from "./locators.js";
+
+/**
+ * Reuse of logged-in sessions across runs: after a successful login the
+ * browser context's storage state (cookies and local storage) is saved, and
+ * the next login for the same profile and user restores it instead of
+ * filling in the login form with the model. A saved session that no longer
+ * works (the app shows the login form again) is deleted and replaced by a
+ * fresh login.
+ *
+ * State files hold live session cookies, so they are written readable by
+ * the owner only and kept out of git:
+ *
+ * ```
+ * .athena-sessions/<profile>/<username>.json
+ * ```
+ */
+
+export const DEFAULT_SESSIONS_DIR = ".athena-sessions";
+
+// What BrowserContext.storageState() writes
+const StorageStateSchema = z.object({
+  cookies: z.array(
+    z.object({
+      name: z.string(),
+      value: z.string(),
+      domain: z.string(),
+      path: z.string(),
+      expires: z.number(),
+      httpOnly: z.boolean(),
+      secure: z.boolean(),
+      sameSite: z.enum(["Strict", "Lax", "None"]),
+    })
+  ),
+  origins: z.array(
+    z.object({
+      origin: z.string(),
+      localStorage: z.array(z.object({ name: z.string(), value: z.string() })),
+    })
+  ),
+});
+
+type StorageState = z.infer<typeof StorageStateSchema>;
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9@.]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Where the session of a user on a profile is saved
+ */
+export function sessionStatePath(
+  profileName: string,
+  username: string,
+  sessionsDir = DEFAULT_SESSIONS_DIR
+): string {
+  return path.join(sessionsDir, slugify(profileName), `${slugify(username) || "user"}.json`);
+}
+
+/**
+ * Save the page's cookies and local storage
+ */
+export async function saveSession(page: Page, stateFile: string) {
+  const state = await page.context().storageState();
+  fs.mkdirSync(path.dirname(stateFile), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(stateFile, JSON.stringify(state, null, 2), { mode: 0o600 });
+  console.log(`Saved the session to ${stateFile}`);
+}
+
+/**
+ * Load a saved session into the page's context before navigating. Cookies
+ * are added right away; local storage is filled in by an init script the
+ * first time each origin loads in the tab.
+ *
+ * Only call this on a fresh context: the init script cannot be removed, so
+ * it would keep seeding this session's local storage into whatever the
+ * context runs next. runSuite() therefore only restores sessions for its
+ * first case.
+ * @returns Whether there was a readable saved session to load
+ */
+export async function restoreSession(page: Page, stateFile: string): Promise<boolean> {
+  if (!fs.existsSync(stateFile)) {
+    return false;
+  }
+  let state: StorageState;
+  try {
+    state = StorageStateSchema.parse(JSON.parse(fs.readFileSync(stateFile, "utf8")));
+  } catch {
+    console.log(`Ignoring unreadable session file ${stateFile}`);
+    deleteSession(stateFile);
+    return false;
+  }
+
+  const now = Date.now() / 1000;
+  const cookies = state.cookies.filter((cookie) => cookie.expires === -1 || cookie.expires > now);
+  if (cookies.length === 0 && state.origins.length === 0) {
+    deleteSession(stateFile);
+    return false;
+  }
+  await page.context().addCookies(cookies);
+  if (state.origins.length > 0) {
+    await page.context().addInitScript((origins: StorageState["origins"]) => {
+      const marker = "__athenaSessionRestored";
+      if (sessionStorage.getItem(marker)) {
+        return;
+      }
+      for (const item of origins.find((entry) => entry.origin === location.origin)
+        ?.localStorage ?? []) {
+        localStorage.setItem(item.name, item.value);
+      }
+      sessionStorage.setItem(marker, "1");
+    }, state.origins);
+  }
+  return true;
+}
+
+export function deleteSession(stateFile: string) {
+  fs.rmSync(stateFile, { force: true });
+}
+
+/**
+ * Delete the saved sessions of a profile, or of every profile
+ * @returns The deleted state files
+ */
+export function clearSessions(profileName?: string, sessionsDir = DEFAULT_SESSIONS_DIR): string[] {
+  const dir = profileName ? path.join(sessionsDir, slugify(profileName)) : sessionsDir;
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  const files = fs
+    .readdirSync(dir, { recursive: true, encoding: "utf8" })
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => path.join(dir, file));
+  fs.rmSync(dir, { recursive: true, force: true });
+  return files;
+}
+
+/**
+ * After navigating with a restored session, wait for the app to show either
+ * the landing page or the login form
+ * @returns Whether the session is still logged in
+ */
+export async function isLoggedIn(page: Page, timeoutMs = 30000): Promise<boolean> {
+  const landing = primarySelector("landingHeader");
+  const loginForm = primarySelector("emailInput");
+  try {
+    await page.waitForSelector(`${landing}, ${loginForm}`, { state: "visible", timeout: timeoutMs });
+  } catch {
+    return false;
+  }
+  return !(await page.locator(loginForm).first().isVisible());
+}
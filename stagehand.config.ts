@@ -1,38 +1,55 @@
 import type { ConstructorParams, LogLine } from "@browserbasehq/stagehand";
 import dotenv from "dotenv";
-false
-false
+import { FakeLLMClient } from "./fake-llm.js";
+import type { Profile } from "./profiles.js";
+import { stagehandLog } from "./forensics.js";
+import { logStagehandLine } from "./logger.js";
+import { getSecret, redact } from "./secrets.js";
 
 dotenv.config();
 
-const StagehandConfig: ConstructorParams = {
-  env: "BROWSERBASE",
-  apiKey: process.env.BROWSERBASE_API_KEY /* API key for authentication */,
-  projectId: process.env.BROWSERBASE_PROJECT_ID /* Project identifier */,
-  debugDom: undefined /* Enable DOM debugging features */,
-  headless: false /* Run browser in headless mode */,
-  logger: (message: LogLine) =>
-    console.log(logLineToString(message)) /* Custom logging function */,
-  domSettleTimeoutMs: 30_000 /* Timeout for DOM to settle in milliseconds */,
-  browserbaseSessionCreateParams: {
-    projectId: process.env.BROWSERBASE_PROJECT_ID!,
-    proxies: true,
-    browserSettings: {
-      advancedStealth: true,
+/**
+ * Build the Stagehand config for an environment profile (see profiles.ts)
+ */
+export function createStagehandConfig(profile: Profile): ConstructorParams {
+  return {
+    env: profile.env,
+    apiKey: getSecret("BROWSERBASE_API_KEY", false) /* API key for authentication */,
+    projectId: getSecret("BROWSERBASE_PROJECT_ID", false) /* Project identifier */,
+    debugDom: undefined /* Enable DOM debugging features */,
+    headless: profile.headless /* Run browser in headless mode */,
+    localBrowserLaunchOptions: {
+      headless: profile.headless,
+      viewport: profile.viewport,
+    } /* Only used when env is LOCAL */,
+    logger: (message: LogLine) => {
+      stagehandLog.push(redact(logLineToString(message))); // Kept for failure bundles, see forensics.ts
+      logStagehandLine(message);
+    } /* Custom logging function, see logger.ts */,
+    domSettleTimeoutMs:
+      profile.timeouts.domSettleMs /* Timeout for DOM to settle in milliseconds */,
+    browserbaseSessionCreateParams: {
+      projectId: getSecret("BROWSERBASE_PROJECT_ID", false)!,
+      proxies: true,
+      browserSettings: {
+        advancedStealth: true,
+        viewport: profile.viewport,
+      },
     },
-  },
-  enableCaching: undefined /* Enable caching functionality */,
-  browserbaseSessionID:
-    undefined /* Session ID for resuming Browserbase sessions */,
-  modelName: "claude-3-5-sonnet-20241022" /* Name of the model to use */,
-      modelClientOptions: {
-        apiKey: process.env.ANTHROPIC_API_KEY,
-      } /* Configuration options for the model client */,
-  
-  
-};
-
-export default StagehandConfig;
+    enableCaching: undefined /* Enable caching functionality */,
+    browserbaseSessionID:
+      undefined /* Session ID for resuming Browserbase sessions */,
+    modelName: profile.modelName /* Name of the model to use */,
+    modelClientOptions: {
+      apiKey: profile.modelName.startsWith("claude")
+        ? getSecret("ANTHROPIC_API_KEY", false)
+        : getSecret("OPENAI_API_KEY", false),
+    } /* Configuration options for the model client */,
+    ...(profile.mock
+      ? { llmClient: new FakeLLMClient(profile.modelName) } /* Offline, see fake-llm.ts */
+      : {}),
+  };
+}
 
 /**
  * Custom logging function that you can use to filter logs.
@@ -63,7 +80,8 @@ export default StagehandConfig;
  */
 export function logLineToString(logLine: LogLine): string {
   // If you want more detail, set this to false. However, this will make the logs
-  // more verbose and harder to read.
+  // more verbose and harder to read. Secrets are masked either way (see
+  // secrets.ts).
   const HIDE_AUXILIARY = true;
 
   try {
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  analyzeRun,
+  analyzeScreenshots,
+  FakeVisionClient,
+  Verdict,
+  VisionClient,
+} from "../analysis.js";
+
+describe("analyzeScreenshots", () => {
+  let dir: string;
+  let screenshotPaths: string[];
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "athena-analysis-"));
+    screenshotPaths = ["screenshot_1.png", "screenshot_2.jpg"].map((name) => {
+      const file = path.join(dir, name);
+      fs.writeFileSync(file, `image ${name}`);
+      return file;
+    });
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("sends the screenshots and prompt and returns the verdict", async () => {
+    const client = new FakeVisionClient();
+    const verdict = await analyzeScreenshots({
+      client,
+      prompt: "research news on dogs",
+      screenshotPaths,
+    });
+
+    assert.deepEqual(verdict, {
+      responded: true,
+      finished: true,
+      errored: false,
+      qualityScore: 7,
+      rationale: "Fake verdict",
+    });
+    const [request] = client.requests;
+    assert.match(request.prompt, /research news on dogs/);
+    assert.deepEqual(
+      request.images.map((image) => [image.label, image.mediaType]),
+      [
+        ["Screenshot 1/2 (screenshot_1.png)", "image/png"],
+        ["Screenshot 2/2 (screenshot_2.jpg)", "image/jpeg"],
+      ]
+    );
+    assert.equal(
+      Buffer.from(request.images[0].base64, "base64").toString(),
+      "image screenshot_1.png"
+    );
+  });
+
+  it("finds the verdict in a response with text around it", async () => {
+    const client: VisionClient = {
+      complete: async () =>
+        'Here is my verdict:\n```json\n{"responded": true, "finished": false, "errored": true, "qualityScore": 2, "rationale": "Error banner"}\n```',
+    };
+    const verdict = await analyzeScreenshots({ client, prompt: "p", screenshotPaths });
+    assert.equal(verdict.errored, true);
+    assert.equal(verdict.qualityScore, 2);
+  });
+
+  it("rejects a verdict that does not match the schema", async () => {
+    const client = new FakeVisionClient({
+      responded: true,
+      finished: true,
+      errored: false,
+      qualityScore: 42,
+    } as Verdict);
+    await assert.rejects(
+      analyzeScreenshots({ client, prompt: "p", screenshotPaths }),
+      /Model returned an invalid verdict: [\s\S]*qualityScore[\s\S]*rationale/
+    );
+  });
+
+  it("rejects a response without JSON", async () => {
+    const client: VisionClient = { complete: async () => "I cannot tell." };
+    await assert.rejects(
+      analyzeScreenshots({ client, prompt: "p", screenshotPaths }),
+      /contains no JSON object/
+    );
+  });
+
+  it("saves the verdict of a prompt run next to its screenshots", async () => {
+    fs.writeFileSync(path.join(dir, "screenshot_paths.json"), JSON.stringify(screenshotPaths));
+    fs.writeFileSync(path.join(dir, "prompt.txt"), "research news on dogs");
+    const verdict = await analyzeRun(new FakeVisionClient(), dir);
+    assert.deepEqual(JSON.parse(fs.readFileSync(path.join(dir, "verdict.json"), "utf8")), verdict);
+  });
+});
@@ -0,0 +1,71 @@
+import { chromium } from "@playwright/test";
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import type { SuiteResult } from "../runner.js";
+
+// End to end: the CLI serves the mock app for the `mock` profile and drives it
+// with the fake model client, so this needs a local Chromium but no network
+const root = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+const hasBrowser = fs.existsSync(chromium.executablePath());
+
+function athenaTest(args: string[], cwd: string): Promise<{ code: number; output: string }> {
+  return new Promise((resolve) => {
+    execFile(
+      path.join(root, "node_modules", ".bin", "tsx"),
+      [path.join(root, "cli.ts"), ...args],
+      { cwd, timeout: 240_000 },
+      (error, stdout, stderr) => {
+        const code = error ? (typeof error.code === "number" ? error.code : 1) : 0;
+        resolve({ code, output: stdout + stderr });
+      }
+    );
+  });
+}
+
+describe("mock Athena", { skip: !hasBrowser && "Chromium is not installed" }, () => {
+  let cwd: string;
+
+  before(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), "athena-test-"));
+  });
+
+  after(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it("runs a scenario against the mock app with the mock profile", { timeout: 300_000 }, async () => {
+    const scenario = path.join(root, "scenarios", "athena-any-prompt.yaml");
+    const { code, output } = await athenaTest(
+      ["run", scenario, "--profile", "mock", "--name", "e2e"],
+      cwd
+    );
+    assert.equal(code, 0, output);
+
+    const [runId] = fs.readdirSync(path.join(cwd, "runs"));
+    const suite = JSON.parse(
+      fs.readFileSync(path.join(cwd, "runs", runId, "e2e.json"), "utf8")
+    ) as SuiteResult;
+    assert.equal(suite.passed, 1);
+    assert.equal(suite.failed, 0);
+    const [result] = suite.cases;
+    assert.deepEqual(
+      result.steps.map((step) => [step.type, step.status]),
+      [
+        ["login", "passed"],
+        ["openSpaces", "passed"],
+        ["selectAgent", "passed"],
+        ["sendPrompt", "passed"],
+        ["waitForCompletion", "passed"],
+        ["extractAnswer", "passed"],
+        ["screenshot", "passed"],
+      ]
+    );
+    assert.match(result.steps[5].answer?.answer.responseText ?? "", /dog/i);
+    assert.ok(fs.existsSync(path.join(cwd, "runs", runId, "manifest.json")));
+  });
+});
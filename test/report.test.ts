@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { toJUnitXml } from "../report.js";
+import type { SuiteResult } from "../runner.js";
+import type { ScenarioResult } from "../scenario.js";
+
+function scenarioResult(overrides: Partial<ScenarioResult>): ScenarioResult {
+  return {
+    name: "login",
+    status: "passed",
+    startedAt: "2026-01-01T00:00:00.000Z",
+    durationMs: 1500,
+    steps: [],
+    extracted: {},
+    cache: { hits: 0, misses: 0, stale: 0 },
+    locators: [],
+    ...overrides,
+  };
+}
+
+function suite(cases: ScenarioResult[]): SuiteResult {
+  return {
+    name: "nightly",
+    startedAt: "2026-01-01T00:00:00.000Z",
+    durationMs: 1500,
+    passed: cases.filter((c) => c.status === "passed").length,
+    failed: cases.filter((c) => c.status === "failed").length,
+    cases,
+  };
+}
+
+describe("toJUnitXml", () => {
+  it("reports every step as a test case", () => {
+    const xml = toJUnitXml(
+      suite([
+        scenarioResult({
+          steps: [
+            {
+              name: "open",
+              type: "goto",
+              status: "passed",
+              startedAt: "2026-01-01T00:00:00.000Z",
+              durationMs: 1000,
+            },
+            {
+              name: "send",
+              type: "sendPrompt",
+              status: "failed",
+              startedAt: "2026-01-01T00:00:01.000Z",
+              durationMs: 500,
+              error: "Chat input <missing>",
+            },
+          ],
+          status: "failed",
+        }),
+      ])
+    );
+    assert.match(xml, /<testsuites name="nightly" tests="2" failures="1"/);
+    assert.match(xml, /<testcase classname="login" name="open" time="1.000"\/>/);
+    assert.match(xml, /<failure message="Chat input &lt;missing&gt;" type="sendPrompt"\/>/);
+  });
+
+  it("reports a scenario that failed before its steps as a failed setup case", () => {
+    const xml = toJUnitXml(
+      suite([
+        scenarioResult({
+          status: "failed",
+          error: "Stagehand init failed",
+          failureKind: "infra",
+        }),
+      ])
+    );
+    assert.match(xml, /<testsuites name="nightly" tests="1" failures="1"/);
+    assert.match(xml, /<testsuite name="login" tests="1" failures="1" skipped="0"/);
+    assert.match(xml, /<testcase classname="login" name="setup" time="1.500">/);
+    assert.match(xml, /<failure message="Stagehand init failed" type="setup"\/>/);
+  });
+
+  it("adds no setup case to a passed scenario without steps", () => {
+    const xml = toJUnitXml(suite([scenarioResult({})]));
+    assert.match(xml, /<testsuites name="nightly" tests="0" failures="0"/);
+    assert.doesNotMatch(xml, /name="setup"/);
+  });
+});
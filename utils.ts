@@ -1,26 +1,23 @@
 import { ObserveResult, Page } from "@browserbasehq/stagehand";
-import boxen from "boxen";
-import chalk from "chalk";
-import fs from "fs/promises";
 import { z } from "zod";
+import { logger } from "./logger.js";
+import { RETRY_POLICIES, withRetry } from "./retry.js";
+import { lookupVariable } from "./secrets.js";
 
 export function announce(message: string, title?: string) {
-  console.log(
-    boxen(message, {
-      padding: 1,
-      margin: 3,
-      title: title || "Stagehand",
-    })
-  );
+  // Rendered with boxen by the pretty log format, see logger.ts
+  logger.info(message, { box: title || "Stagehand" });
 }
 
 /**
- * Get an environment variable and throw an error if it's not found
+ * Get an environment variable and throw an error if it's not found. Falls
+ * back to the credential providers in secrets.ts; use `getSecret()` for
+ * values that must be redacted.
  * @param name - The name of the environment variable
  * @returns The value of the environment variable
  */
 export function getEnvVar(name: string, required = true): string | undefined {
-  const value = process.env[name];
+  const value = lookupVariable(name);
   if (!value && required) {
     throw new Error(`${name} not found in environment variables`);
   }
@@ -42,6 +39,24 @@ export function validateZodSchema(schema: z.ZodTypeAny, data: unknown) {
   }
 }
 
+/**
+ * Take a full-page screenshot, retrying a few times since large pages can
+ * time out while rendering
+ * @param screenshotPath - Where to save the screenshot
+ */
+export async function screenshotWithRetry(page: Page, screenshotPath: string) {
+  await withRetry(
+    "Screenshot",
+    () =>
+      page.screenshot({
+        path: screenshotPath,
+        fullPage: true,
+        timeout: 60000, // Increase timeout to 60 seconds
+      }),
+    RETRY_POLICIES.screenshot
+  );
+}
+
 export async function drawObserveOverlay(page: Page, results: ObserveResult[]) {
   // Convert single xpath to array for consistent handling
   const xpathList = results.map((result) => result.selector);
@@ -96,76 +111,3 @@ export async function clearOverlays(page: Page) {
     });
   });
 }
-
-export async function simpleCache(
-  instruction: string,
-  actionToCache: ObserveResult
-) {
-  // Save action to cache.json
-  try {
-    // Read existing cache if it exists
-    let cache: Record<string, ObserveResult> = {};
-    try {
-      const existingCache = await fs.readFile("cache.json", "utf-8");
-      cache = JSON.parse(existingCache);
-    } catch (error) {
-      // File doesn't exist yet, use empty cache
-    }
-
-    // Add new action to cache
-    cache[instruction] = actionToCache;
-
-    // Write updated cache to file
-    await fs.writeFile("cache.json", JSON.stringify(cache, null, 2));
-  } catch (error) {
-    console.error(chalk.red("Failed to save to cache:"), error);
-  }
-}
-
-export async function readCache(
-  instruction: string
-): Promise<ObserveResult | null> {
-  try {
-    const existingCache = await fs.readFile("cache.json", "utf-8");
-    const cache: Record<string, ObserveResult> = JSON.parse(existingCache);
-    return cache[instruction] || null;
-  } catch (error) {
-    return null;
-  }
-}
-
-/**
- * This function is used to act with a cacheable action.
- * It will first try to get the action from the cache.
- * If not in cache, it will observe the page and cache the result.
- * Then it will execute the action.
- * @param instruction - The instruction to act with.
- */
-export async function actWithCache(
-  page: Page,
-  instruction: string
-): Promise<void> {
-  // Try to get action from cache first
-  const cachedAction = await readCache(instruction);
-  if (cachedAction) {
-    console.log(chalk.blue("Using cached action for:"), instruction);
-    await page.act(cachedAction);
-    return;
-  }
-
-  // If not in cache, observe the page and cache the result
-  const results = await page.observe(instruction);
-  console.log(chalk.blue("Got results:"), results);
-
-  // Cache the playwright action
-  const actionToCache = results[0];
-  console.log(chalk.blue("Taking cacheable action:"), actionToCache);
-  await simpleCache(instruction, actionToCache);
-  // OPTIONAL: Draw an overlay over the relevant xpaths
-  await drawObserveOverlay(page, results);
-  await page.waitForTimeout(1000); // Can delete this line, just a pause to see the overlay
-  await clearOverlays(page);
-
-  // Execute the action
-  await page.act(actionToCache);
-}
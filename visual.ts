@@ -0,0 +1,287 @@
+import { Page } from "@browserbasehq/stagehand";
+import fs from "fs";
+import path from "path";
+import pixelmatch from "pixelmatch";
+import { PNG } from "pngjs";
+import { z } from "zod";
+import { AthenaTestError } from "./errors.js";
+
+/**
+ * Visual regression checks: a screenshot of the page is compared pixel by
+ * pixel against an approved baseline image, so layout changes in Spaces and
+ * the chat views fail a run instead of going unnoticed.
+ *
+ * Baselines are stored per scenario and check name:
+ *
+ * ```
+ * baselines/<scenario>/<name>.png
+ * ```
+ *
+ * A check that fails, or has no baseline yet, writes the new screenshot and
+ * a diff image (changed pixels in red) to the run's output directory:
+ *
+ * ```
+ * runs/<runId>/visual/<scenario>/<name>.actual.png
+ * runs/<runId>/visual/<scenario>/<name>.diff.png
+ * ```
+ *
+ * Review them and copy the ones that are correct over the baselines with
+ * `athena-test approve-baselines runs/<runId>`. Parts of the page that change
+ * on every run, like timestamps and streaming text, can be masked by
+ * selector or by region; masked areas are painted over in both images.
+ */
+
+export const DEFAULT_BASELINES_DIR = "baselines";
+
+const Region = z.object({
+  x: z.number().int().nonnegative(),
+  y: z.number().int().nonnegative(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+export const VisualCheckSchema = z.object({
+  fullPage: z.boolean().default(true),
+  mask: z.array(z.string()).default([]) /* Selectors of elements to paint over */,
+  maskRegions: z.array(Region).default([]) /* Page areas in CSS pixels to paint over */,
+  threshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.1) /* How different a pixel's color must be to count, 0 to 1 */,
+  maxDiffRatio: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.001) /* Share of pixels allowed to differ */,
+  maxDiffPixels: z.number().int().nonnegative().optional() /* Overrides maxDiffRatio */,
+});
+
+export type VisualCheck = z.infer<typeof VisualCheckSchema>;
+
+export interface VisualSettings {
+  baselinesDir: string;
+  outputDir: string; // Where actual and diff images of failed checks go
+  update: boolean; // Overwrite baselines instead of comparing
+}
+
+export type VisualStatus = "matched" | "mismatched" | "missing" | "updated";
+
+export interface VisualComparison {
+  name: string;
+  status: VisualStatus;
+  baseline: string;
+  actual?: string;
+  diff?: string;
+  diffPixels?: number;
+  diffRatio?: number;
+  reason?: string;
+}
+
+/**
+ * A screenshot does not match its baseline, or has none
+ */
+export class VisualMismatchError extends AthenaTestError {
+  constructor(
+    message: string,
+    readonly comparison: VisualComparison
+  ) {
+    super(message);
+  }
+}
+
+const MASK_COLOR = [255, 0, 255, 255]; // Same as Playwright's default mask color
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Where the images of a check are kept, relative to the baselines or output
+ * directory
+ */
+export function visualPath(scenario: string, name: string): string {
+  return path.join(slugify(scenario) || "scenario", `${slugify(name) || "screenshot"}.png`);
+}
+
+/**
+ * Copy an image onto a canvas of the given size; the rest stays transparent
+ * and so counts as different from any page content
+ */
+function resize(image: PNG, width: number, height: number): PNG {
+  if (image.width === width && image.height === height) {
+    return image;
+  }
+  const canvas = new PNG({ width, height });
+  PNG.bitblt(image, canvas, 0, 0, image.width, image.height, 0, 0);
+  return canvas;
+}
+
+function paintRegions(image: PNG, regions: z.infer<typeof Region>[], scale: number) {
+  for (const region of regions) {
+    const x0 = Math.round(region.x * scale);
+    const y0 = Math.round(region.y * scale);
+    const x1 = Math.min(image.width, Math.round((region.x + region.width) * scale));
+    const y1 = Math.min(image.height, Math.round((region.y + region.height) * scale));
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        image.data.set(MASK_COLOR, (y * image.width + x) * 4);
+      }
+    }
+  }
+}
+
+/**
+ * Compare two PNG images. Images of different sizes are compared on a
+ * canvas of the larger size, so the missing area counts as changed.
+ * @returns The number and share of changed pixels and a diff image
+ */
+export function compareImages(
+  actualPng: Buffer,
+  expectedPng: Buffer,
+  { threshold = 0.1, maskRegions = [], scale = 1 }: {
+    threshold?: number;
+    maskRegions?: z.infer<typeof Region>[];
+    scale?: number; // Device pixels per CSS pixel of the mask regions
+  } = {}
+) {
+  const actual = PNG.sync.read(actualPng);
+  const expected = PNG.sync.read(expectedPng);
+  const width = Math.max(actual.width, expected.width);
+  const height = Math.max(actual.height, expected.height);
+  const a = resize(actual, width, height);
+  const b = resize(expected, width, height);
+  paintRegions(a, maskRegions, scale);
+  paintRegions(b, maskRegions, scale);
+
+  const diff = new PNG({ width, height });
+  const diffPixels = pixelmatch(a.data, b.data, diff.data, width, height, { threshold });
+  return {
+    diffPixels,
+    diffRatio: diffPixels / (width * height),
+    sizeChanged: actual.width !== expected.width || actual.height !== expected.height,
+    size: `${actual.width}x${actual.height}`,
+    expectedSize: `${expected.width}x${expected.height}`,
+    diffPng: PNG.sync.write(diff),
+  };
+}
+
+/**
+ * Screenshot the page and compare it against its baseline. Writes the
+ * actual and diff images of a failed check to the output directory.
+ * @param scenario - Scenario name, groups the baselines
+ * @param name - Names the baseline within the scenario
+ */
+export async function checkScreenshot(
+  page: Page,
+  {
+    scenario,
+    name,
+    check,
+    settings,
+  }: { scenario: string; name: string; check: VisualCheck; settings: VisualSettings }
+): Promise<VisualComparison> {
+  const relativePath = visualPath(scenario, name);
+  const baseline = path.join(settings.baselinesDir, relativePath);
+  const screenshot = await page.screenshot({
+    fullPage: check.fullPage,
+    mask: check.mask.map((selector) => page.locator(selector)),
+    animations: "disabled",
+    caret: "hide",
+    timeout: 60000,
+  });
+
+  if (settings.update) {
+    fs.mkdirSync(path.dirname(baseline), { recursive: true });
+    fs.writeFileSync(baseline, screenshot);
+    console.log(`Baseline updated: ${baseline}`);
+    return { name, status: "updated", baseline };
+  }
+
+  const actual = path.join(settings.outputDir, relativePath.replace(/\.png$/, ".actual.png"));
+  const saveActual = () => {
+    fs.mkdirSync(path.dirname(actual), { recursive: true });
+    fs.writeFileSync(actual, screenshot);
+  };
+
+  if (!fs.existsSync(baseline)) {
+    saveActual();
+    return {
+      name,
+      status: "missing",
+      baseline,
+      actual,
+      reason: `No baseline ${baseline} yet`,
+    };
+  }
+
+  const scale = await page.evaluate(() => window.devicePixelRatio).catch(() => 1);
+  const result = compareImages(screenshot, fs.readFileSync(baseline), {
+    threshold: check.threshold,
+    maskRegions: check.maskRegions,
+    scale,
+  });
+  const comparison: VisualComparison = {
+    name,
+    status: "matched",
+    baseline,
+    diffPixels: result.diffPixels,
+    diffRatio: result.diffRatio,
+  };
+  const allowed =
+    check.maxDiffPixels !== undefined
+      ? result.diffPixels <= check.maxDiffPixels
+      : result.diffRatio <= check.maxDiffRatio;
+  if (allowed) {
+    return comparison;
+  }
+
+  saveActual();
+  const diff = actual.replace(/\.actual\.png$/, ".diff.png");
+  fs.writeFileSync(diff, result.diffPng);
+  return {
+    ...comparison,
+    status: "mismatched",
+    actual,
+    diff,
+    reason: `${result.diffPixels} pixels (${(result.diffRatio * 100).toFixed(2)}%) differ${
+      result.sizeChanged ? `, size changed from ${result.expectedSize} to ${result.size}` : ""
+    }`,
+  };
+}
+
+/**
+ * Copy the actual images of failed checks in an output directory over
+ * their baselines, along with the violations of failed accessibility checks
+ * (see accessibility.ts)
+ * @param filter - Only approve images whose path contains this text
+ * @returns The updated baselines
+ */
+export function approveBaselines(
+  outputDir: string,
+  baselinesDir: string,
+  filter?: string
+): string[] {
+  const approved: string[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(file);
+      } else if (/\.actual\.(png|json)$/.test(entry.name) && (!filter || file.includes(filter))) {
+        const baseline = path.join(
+          baselinesDir,
+          path.relative(outputDir, file).replace(/\.actual(\.png|\.json)$/, "$1")
+        );
+        fs.mkdirSync(path.dirname(baseline), { recursive: true });
+        fs.copyFileSync(file, baseline);
+        approved.push(baseline);
+      }
+    }
+  };
+  walk(outputDir);
+  return approved;
+}